@@ -1,10 +1,14 @@
 import { Config } from './config';
 import { Logger } from './utils/logger';
-import { TradingService, ArbitrageOpportunity } from './services/tradingService';
+import { TradingService, ArbitrageOpportunity, Order } from './services/tradingService';
 import { RiskManager } from './services/riskManager';
 import { GalaDexService } from './services/galaDexService';
+import { tokenFromClassKey } from './services/tokenRegistry';
 import { BalanceMonitor } from './services/balanceMonitor';
 import { EnhancedTradingService } from './services/enhancedTradingService';
+import { LiquidityService } from './services/liquidityService';
+import { gatewayResilience } from './services/resilience';
+import { flushMarketDataRecording } from './services/marketDataProvider';
 
 export class Bot {
     private logger = new Logger('Bot');
@@ -15,15 +19,24 @@ export class Bot {
     private riskManager: RiskManager;
     private galaDexService: GalaDexService;
     private balanceMonitor: BalanceMonitor;
+    private liquidityService: LiquidityService;
     private totalProfit = 0;
     private totalTrades = 0;
     private successfulTrades = 0;
+    private pendingProfits: Map<string, number> = new Map(); // Expected profit of orders awaiting confirmation
 
     constructor() {
         this.galaDexService = new GalaDexService();
         this.tradingService = new TradingService();
-        this.enhancedTradingService = new EnhancedTradingService(this.galaDexService);
-        this.riskManager = new RiskManager();
+        this.tradingService.onOrderSettled(order => {
+            const profit = this.pendingProfits.get(order.id);
+            if (profit === undefined) return;
+            this.pendingProfits.delete(order.id);
+            this.recordSettledOrder(order, profit);
+        });
+        this.liquidityService = new LiquidityService(this.galaDexService);
+        this.enhancedTradingService = new EnhancedTradingService(this.galaDexService, this.liquidityService);
+        this.riskManager = new RiskManager(this.galaDexService.depthProfiler, this.galaDexService.referencePrices, this.galaDexService.depegMonitor, this.galaDexService.poolState);
         this.balanceMonitor = new BalanceMonitor(this.galaDexService);
     }
 
@@ -38,6 +51,7 @@ export class Bot {
         await this.galaDexService.initialize();
         await this.tradingService.initialize();
         this.balanceMonitor.startMonitoring();
+        this.galaDexService.depegMonitor.startMonitoring();
         
         this.logger.info('✅ Bot initialization complete');
     }
@@ -76,6 +90,12 @@ export class Bot {
                 return;
             }
 
+            // Prices and balances from a failing gateway can't be trusted; wait for the circuits to recover
+            if (gatewayResilience.isDegraded()) {
+                this.logger.warn(`⏸️ Trading paused, gateway degraded: ${gatewayResilience.getOpenEndpoints().join(', ')}`);
+                return;
+            }
+
             // Find arbitrage opportunities
             const opportunities = await this.tradingService.findArbitrageOpportunities();
             
@@ -109,7 +129,7 @@ export class Bot {
             }
 
             // Calculate optimal position size
-            const positionSize = this.riskManager.calculatePositionSize(opportunity);
+            const positionSize = await this.riskManager.calculatePositionSize(opportunity);
             opportunity.volume = Math.min(opportunity.volume, positionSize);
 
             this.logger.info(`📊 Position size: ${opportunity.volume.toFixed(2)} (${((opportunity.volume / Config.MAX_POSITION_SIZE) * 100).toFixed(1)}% of max)`);
@@ -118,14 +138,14 @@ export class Bot {
             const order = await this.tradingService.executeOrder(opportunity);
             if (order) {
                 this.totalTrades++;
-                if (order.status === 'filled') {
-                    this.successfulTrades++;
-                    this.totalProfit += opportunity.profit;
-                    this.riskManager.updateMetrics(order, opportunity.profit);
-                    
-                    this.logger.info(`✅ Trade executed: ${order.id} - Profit: ${opportunity.profit.toFixed(2)}`);
+                // The scan took an estimated network fee off profit; book it before fees so the fee actually paid comes off instead
+                const profit = opportunity.profit + (opportunity.networkFeeUsd ?? 0);
+                if (order.status === 'pending') {
+                    // Profit is only booked once the transaction tracker confirms the swap
+                    this.pendingProfits.set(order.id, profit);
+                    this.logger.info(`📤 Trade submitted: ${order.id} - awaiting confirmation`);
                 } else {
-                    this.logger.warn(`⚠️ Trade failed: ${order.id} - Status: ${order.status}`);
+                    this.recordSettledOrder(order, profit);
                 }
             }
 
@@ -134,6 +154,21 @@ export class Bot {
         }
     }
 
+    private recordSettledOrder(order: Order, expectedProfit: number): void {
+        if (order.status === 'filled') {
+            // What the chain actually filled decides the profit, when it said
+            const profit = order.grossProfitUsd ?? expectedProfit;
+            const networkFee = order.networkFeeUsd ?? 0;
+            this.successfulTrades++;
+            this.totalProfit += profit - networkFee;
+            this.riskManager.updateMetrics(order, profit);
+            
+            this.logger.info(`✅ Trade executed: ${order.id} - Profit: ${(profit - networkFee).toFixed(2)} (network fee ${networkFee.toFixed(4)})`);
+        } else {
+            this.logger.warn(`⚠️ Trade failed: ${order.id} - Status: ${order.status}`);
+        }
+    }
+
     private logMetrics(): void {
         const riskMetrics = this.riskManager.getRiskMetrics();
         const winRate = this.totalTrades > 0 ? (this.successfulTrades / this.totalTrades) * 100 : 0;
@@ -155,6 +190,10 @@ export class Bot {
         if (this.scanInterval) clearInterval(this.scanInterval);
         
         this.balanceMonitor.stopMonitoring();
+        this.galaDexService.depegMonitor.stopMonitoring();
+        this.galaDexService.stopTokenRefresh();
+        this.tradingService.stop();
+        flushMarketDataRecording();
         
         // Log final metrics
         this.logMetrics();
@@ -169,7 +208,16 @@ export class Bot {
             successfulTrades: this.successfulTrades,
             winRate: this.totalTrades > 0 ? (this.successfulTrades / this.totalTrades) * 100 : 0,
             riskMetrics: this.riskManager.getRiskMetrics(),
-            orders: this.tradingService.getOrders()
+            orders: this.tradingService.getOrders(),
+            quoteCache: this.galaDexService.getQuoteCacheStats(),
+            resilience: this.galaDexService.getResilienceHealth(),
+            transactions: this.galaDexService.getTransactionStats(),
+            swapQueue: this.galaDexService.getSwapQueueStats(),
+            referencePrices: this.galaDexService.getReferencePriceStats(),
+            stablecoins: this.galaDexService.getStablecoinStatuses(),
+            stablecoinPairs: this.galaDexService.getStablecoinPairStatuses(),
+            liquidity: this.liquidityService.getStats(),
+            lastScan: this.tradingService.getLastScanMetrics()
         };
     }
 
@@ -217,21 +265,19 @@ export class Bot {
         return this.galaDexService.getAvailableTradingPairs();
     }
 
-    async getTokenLiquidity(token: string) {
-        return await this.galaDexService.getTokenLiquidity(token);
+    async getMarketDepth(token: string) {
+        return await this.galaDexService.getMarketDepth(token);
     }
 
     async testTransaction(): Promise<void> {
         this.logger.info('🧪 Starting transaction test...');
         
         try {
+            const gala = tokenFromClassKey('GALA|Unit|none|none', 8, 'Gala');
+            const gusdc = tokenFromClassKey('GUSDC|Unit|none|none', 6, 'Gala USD Coin');
+
             // Check GALA balance first
-            const galaBalance = await this.galaDexService.getTokenBalance({
-                symbol: 'GALA',
-                classKey: 'GALA|Unit|none|none',
-                decimals: 8,
-                name: 'Gala'
-            });
+            const galaBalance = await this.galaDexService.getTokenBalance(gala);
             
             this.logger.info(`💰 Current GALA balance: ${galaBalance}`);
             
@@ -241,39 +287,27 @@ export class Bot {
             }
 
             // Get quote
-            const quote = await this.galaDexService.gswap.quoting.quoteExactInput(
-                'GALA|Unit|none|none',
-                'GUSDC|Unit|none|none',
-                '100',
-                500
-            );
-
-            const expectedGusdc = parseFloat((quote as any).amountOut || '0') / Math.pow(10, 6);
-            this.logger.info(`📊 Quote: 100 GALA → ${expectedGusdc.toFixed(6)} GUSDC`);
+            const quote = await this.galaDexService.getQuote(gala, gusdc, 100, 500);
+            this.logger.info(`📊 Quote: 100 GALA → ${quote.outAmount} GUSDC`);
 
             if (Config.DRY_RUN) {
                 this.logger.info('🧪 DRY RUN: Would execute 100 GALA → GUSDC swap');
-                this.logger.info(`   Expected output: ${expectedGusdc.toFixed(6)} GUSDC`);
+                this.logger.info(`   Expected output: ${quote.outAmount} GUSDC`);
                 return;
             }
 
-            // Execute real transaction
+            // Execute real transaction, queued behind any swaps the bot already has in flight
             this.logger.info('🚀 Executing real transaction...');
-            const swapResult = await this.galaDexService.gswap.swaps.swap(
-                'GALA|Unit|none|none',
-                'GUSDC|Unit|none|none',
-                500,
-                {
-                    exactIn: '100',
-                    amountOutMinimum: (expectedGusdc * 0.99).toFixed(6),
-                },
-                Config.WALLET_ADDRESS
-            );
-
-            this.logger.info(`📝 Transaction submitted: ${swapResult.transactionId}`);
-            
-            const completed = await swapResult.wait();
-            this.logger.info(`✅ Transaction confirmed: ${completed.transactionHash}`);
+            const swapResult = await this.galaDexService.swap({
+                mode: 'exactIn',
+                tokenIn: gala,
+                tokenOut: gusdc,
+                fee: 500,
+                amountIn: quote.amountIn
+            });
+            if (!swapResult) return;
+
+            this.logger.info(`✅ Transaction confirmed: ${swapResult.transactionHash}`);
             
         } catch (error) {
             this.logger.error('❌ Transaction test failed:', error);
@@ -288,4 +322,8 @@ export class Bot {
     getGalaDexService(): any {
         return this.galaDexService;
     }
+
+    getLiquidityService(): LiquidityService {
+        return this.liquidityService;
+    }
 }
\ No newline at end of file
@@ -112,8 +112,9 @@ export class ProfileCLI {
         const bollingerBands = parseFloat(await this.prompt('Bollinger Bands (0-1): ')) || 0;
         const fibonacci = parseFloat(await this.prompt('Fibonacci (0-1): ')) || 0;
         const dca = parseFloat(await this.prompt('DCA (0-1): ')) || 0;
+        const reversion = parseFloat(await this.prompt('Reference Reversion (0-1): ')) || 0;
         
-        const strategyWeights = { arbitrage, momentum, volume, trend, bollingerBands, fibonacci, dca };
+        const strategyWeights = { arbitrage, momentum, volume, trend, bollingerBands, fibonacci, dca, reversion };
         
         if (!validateStrategyWeights(strategyWeights)) {
             console.log('❌ Strategy weights must sum to 1.0\n');
@@ -141,6 +142,7 @@ export class ProfileCLI {
         const bollingerEnabled = (await this.prompt('Enable Bollinger Bands (y/n): ')).toLowerCase() === 'y';
         const fibonacciEnabled = (await this.prompt('Enable Fibonacci (y/n): ')).toLowerCase() === 'y';
         const dcaEnabled = (await this.prompt('Enable DCA (y/n): ')).toLowerCase() === 'y';
+        const reversionEnabled = (await this.prompt('Enable Reference Reversion (y/n): ')).toLowerCase() === 'y';
         
         const profile = createCustomProfile(
             id,
@@ -167,7 +169,8 @@ export class ProfileCLI {
                 trend: trendEnabled,
                 bollingerBands: bollingerEnabled,
                 fibonacci: fibonacciEnabled,
-                dca: dcaEnabled
+                dca: dcaEnabled,
+                reversion: reversionEnabled
             }
         );
         
@@ -208,8 +211,9 @@ export class ProfileCLI {
         const bollingerBands = parseFloat(await this.prompt(`Bollinger Bands [${profile.strategyWeights.bollingerBands}]: `)) || profile.strategyWeights.bollingerBands;
         const fibonacci = parseFloat(await this.prompt(`Fibonacci [${profile.strategyWeights.fibonacci}]: `)) || profile.strategyWeights.fibonacci;
         const dca = parseFloat(await this.prompt(`DCA [${profile.strategyWeights.dca}]: `)) || profile.strategyWeights.dca;
+        const reversion = parseFloat(await this.prompt(`Reference Reversion [${profile.strategyWeights.reversion}]: `)) || profile.strategyWeights.reversion;
         
-        const strategyWeights = { arbitrage, momentum, volume, trend, bollingerBands, fibonacci, dca };
+        const strategyWeights = { arbitrage, momentum, volume, trend, bollingerBands, fibonacci, dca, reversion };
         
         if (!validateStrategyWeights(strategyWeights)) {
             console.log('❌ Strategy weights must sum to 1.0\n');
@@ -1,3 +1,5 @@
+import { CANDLE_INTERVALS, CandleInterval } from './services/candleIntervals';
+
 export class Config {
     static readonly PRIVATE_KEY = process.env.PRIVATE_KEY || '';
     static readonly WALLET_ADDRESS = process.env.WALLET_ADDRESS || '';
@@ -11,9 +13,81 @@ export class Config {
     static readonly DAILY_LOSS_LIMIT = parseFloat(process.env.DAILY_LOSS_LIMIT || '50');
     static readonly MAX_DRAWDOWN_LIMIT = parseFloat(process.env.MAX_DRAWDOWN_LIMIT || '100');
     static readonly RISK_FREE_RATE = parseFloat(process.env.RISK_FREE_RATE || '0.02');
+    static readonly GALA_NETWORK = (process.env.GALA_NETWORK || 'mainnet').toLowerCase();
+    static readonly GALA_GATEWAY_URL = process.env.GALA_GATEWAY_URL || '';
+    static readonly GALA_BUNDLER_URL = process.env.GALA_BUNDLER_URL || '';
+    static readonly GALA_DEX_BACKEND_URL = process.env.GALA_DEX_BACKEND_URL || '';
+    static readonly TRANSACTION_WAIT_TIMEOUT_MS = parseInt(process.env.TRANSACTION_WAIT_TIMEOUT_MS || '0');
+    static readonly NETWORK_FEE_GALA = parseFloat(process.env.NETWORK_FEE_GALA || '1');
+    static readonly MOCK_GATEWAY_PORT = parseInt(process.env.MOCK_GATEWAY_PORT || '3100');
+    static readonly MOCK_GATEWAY_CONFIG = process.env.MOCK_GATEWAY_CONFIG || 'fixtures/mock-gateway.json';
+    static readonly MARKET_DATA_SOURCE = (process.env.MARKET_DATA_SOURCE || 'live').toLowerCase();
+    static readonly MARKET_DATA_FIXTURE = process.env.MARKET_DATA_FIXTURE || 'fixtures/market-data.json';
+    static readonly MARKET_DATA_RECORD_FILE = process.env.MARKET_DATA_RECORD_FILE || '';
+    static readonly TOKEN_REGISTRY_SOURCE = (process.env.TOKEN_REGISTRY_SOURCE || (process.env.MARKET_DATA_SOURCE === 'replay' ? 'file' : 'backend')).toLowerCase();
+    static readonly TOKEN_REGISTRY_FILE = process.env.TOKEN_REGISTRY_FILE || 'token-registry.json';
+    static readonly TOKEN_REGISTRY_POOLS_PATH = process.env.TOKEN_REGISTRY_POOLS_PATH || '/explore/pools';
+    static readonly MAX_ROUTE_HOPS = parseInt(process.env.MAX_ROUTE_HOPS || '3');
+    static readonly TOKEN_REFRESH_INTERVAL_MS = parseInt(process.env.TOKEN_REFRESH_INTERVAL_MS || '3600000');
+    static readonly SCAN_CONCURRENCY = parseInt(process.env.SCAN_CONCURRENCY || '4');
+    static readonly GATEWAY_MAX_REQUESTS_PER_SEC = parseFloat(process.env.GATEWAY_MAX_REQUESTS_PER_SEC || '10');
+    static readonly QUOTE_CACHE_TTL_MS = parseInt(process.env.QUOTE_CACHE_TTL_MS || '5000');
+    static readonly RETRY_MAX_ATTEMPTS = parseInt(process.env.RETRY_MAX_ATTEMPTS || '3');
+    static readonly RETRY_BASE_DELAY_MS = parseInt(process.env.RETRY_BASE_DELAY_MS || '250');
+    static readonly RETRY_MAX_DELAY_MS = parseInt(process.env.RETRY_MAX_DELAY_MS || '4000');
+    static readonly CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5');
+    static readonly CIRCUIT_COOLDOWN_MS = parseInt(process.env.CIRCUIT_COOLDOWN_MS || '30000');
+    static readonly DEPTH_LADDER_USD = (process.env.DEPTH_LADDER_USD || '10,50,100,250,500,1000,2500,5000').split(',').map(s => parseFloat(s)).filter(n => n > 0);
+    static readonly DEPTH_PROFILE_TTL_MS = parseInt(process.env.DEPTH_PROFILE_TTL_MS || '60000');
+    static readonly POOL_STATE_TTL_MS = parseInt(process.env.POOL_STATE_TTL_MS || '5000');
+    static readonly MAX_PRICE_IMPACT = parseFloat(process.env.MAX_PRICE_IMPACT || '1');
+    static readonly CANDLE_HISTORY = parseInt(process.env.CANDLE_HISTORY || '200');
+    static readonly STRATEGY_CANDLE_INTERVAL = (process.env.STRATEGY_CANDLE_INTERVAL || '1m') as CandleInterval; // Checked by validate()
+    static readonly PRICE_MAX_AGE_MS = parseInt(process.env.PRICE_MAX_AGE_MS || '30000');
+    static readonly PRICE_MAX_JUMP_PERCENT = parseFloat(process.env.PRICE_MAX_JUMP_PERCENT || '10');
+    static readonly PRICE_MEDIAN_WINDOW = parseInt(process.env.PRICE_MEDIAN_WINDOW || '20');
+    static readonly PRICE_MAX_TIER_DIVERGENCE_PERCENT = parseFloat(process.env.PRICE_MAX_TIER_DIVERGENCE_PERCENT || '5');
+    static readonly PRICE_JUMP_CONFIRMATIONS = parseInt(process.env.PRICE_JUMP_CONFIRMATIONS || '3');
+    static readonly REFERENCE_PRICE_SOURCE = (process.env.REFERENCE_PRICE_SOURCE || 'none').toLowerCase();
+    static readonly REFERENCE_PRICE_FILE = process.env.REFERENCE_PRICE_FILE || 'fixtures/reference-prices.json';
+    static readonly REFERENCE_PRICE_URL = process.env.REFERENCE_PRICE_URL || '';
+    static readonly REFERENCE_PRICE_PATH = process.env.REFERENCE_PRICE_PATH ?? 'prices';
+    static readonly REFERENCE_PRICE_TTL_MS = parseInt(process.env.REFERENCE_PRICE_TTL_MS || '60000');
+    static readonly REFERENCE_PRICE_MAX_AGE_MS = parseInt(process.env.REFERENCE_PRICE_MAX_AGE_MS || '300000');
+    static readonly REFERENCE_MAX_DIVERGENCE_PERCENT = parseFloat(process.env.REFERENCE_MAX_DIVERGENCE_PERCENT || '5');
+    static readonly REVERSION_ENTRY_PERCENT = parseFloat(process.env.REVERSION_ENTRY_PERCENT || '1');
+    static readonly STABLECOINS = (process.env.STABLECOINS || 'GUSDC,GUSDT').split(',').map(s => s.trim()).filter(Boolean);
+    static readonly DEPEG_BAND_PERCENT = parseFloat(process.env.DEPEG_BAND_PERCENT || '1');
+    static readonly DEPEG_CHECK_INTERVAL_MS = parseInt(process.env.DEPEG_CHECK_INTERVAL_MS || '60000');
+    static readonly LP_POSITIONS_FILE = process.env.LP_POSITIONS_FILE || 'lp-positions.json';
+    static readonly LP_REBALANCE_ENABLED = process.env.LP_REBALANCE_ENABLED?.toLowerCase() === 'true';
+    static readonly LP_REBALANCE_INTERVAL_MS = parseInt(process.env.LP_REBALANCE_INTERVAL_MS || '300000');
+    static readonly LP_REBALANCE_COOLDOWN_MS = parseInt(process.env.LP_REBALANCE_COOLDOWN_MS || '1800000');
+    static readonly LP_REBALANCE_EDGE_PERCENT = parseFloat(process.env.LP_REBALANCE_EDGE_PERCENT || '10');
+    static readonly LP_VOLATILITY_WINDOW = parseInt(process.env.LP_VOLATILITY_WINDOW || '60');
+    static readonly LP_RANGE_MULTIPLIER = parseFloat(process.env.LP_RANGE_MULTIPLIER || '4');
+    static readonly LP_RANGE_MULTIPLIERS: Record<string, number> = Object.fromEntries((process.env.LP_RANGE_MULTIPLIERS || '')
+        .split(',')
+        .map(entry => entry.split(':').map(s => s.trim()))
+        .filter(([symbol, multiplier]) => symbol && parseFloat(multiplier) > 0)
+        .map(([symbol, multiplier]) => [symbol, parseFloat(multiplier)]));
+    static readonly LP_RANGE_DEFAULT_WIDTH_PERCENT = parseFloat(process.env.LP_RANGE_DEFAULT_WIDTH_PERCENT || '10');
+    static readonly LP_RANGE_MIN_WIDTH_PERCENT = parseFloat(process.env.LP_RANGE_MIN_WIDTH_PERCENT || '2');
+    static readonly LP_RANGE_MAX_WIDTH_PERCENT = parseFloat(process.env.LP_RANGE_MAX_WIDTH_PERCENT || '50');
+    static readonly LP_FEE_COLLECT_MIN_USD = parseFloat(process.env.LP_FEE_COLLECT_MIN_USD || '5');
+    static readonly ENABLE_TRIANGULAR_ARBITRAGE = process.env.ENABLE_TRIANGULAR_ARBITRAGE?.toLowerCase() !== 'false';
+    static readonly TRIANGULAR_BASE_TOKENS = (process.env.TRIANGULAR_BASE_TOKENS || 'GUSDC').split(',').map(s => s.trim()).filter(Boolean);
+    static readonly TRIANGULAR_TRADE_SIZE = parseFloat(process.env.TRIANGULAR_TRADE_SIZE || '100');
 
     static validate(): void {
         if (!this.WALLET_ADDRESS) throw new Error('WALLET_ADDRESS is required');
         if (!this.PRIVATE_KEY) throw new Error('PRIVATE_KEY is required');
+        if (!Object.keys(CANDLE_INTERVALS).includes(this.STRATEGY_CANDLE_INTERVAL)) {
+            throw new Error(`STRATEGY_CANDLE_INTERVAL must be one of ${Object.keys(CANDLE_INTERVALS).join(', ')}, got ${this.STRATEGY_CANDLE_INTERVAL}`);
+        }
+        // Replayed prices are stale by design, so nothing may be submitted against them
+        if (this.MARKET_DATA_SOURCE === 'replay' && !this.DRY_RUN) {
+            throw new Error('MARKET_DATA_SOURCE=replay requires DRY_RUN=true');
+        }
     }
 }
\ No newline at end of file
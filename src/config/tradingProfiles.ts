@@ -6,6 +6,7 @@ export interface StrategyWeights {
     bollingerBands: number;
     fibonacci: number;
     dca: number;
+    reversion: number; // Reversion toward the reference price; needs REFERENCE_PRICE_SOURCE
 }
 
 export interface TradingProfile {
@@ -34,6 +35,7 @@ export interface TradingProfile {
         bollingerBands: boolean;
         fibonacci: boolean;
         dca: boolean;
+        reversion: boolean;
     };
 }
 
@@ -49,7 +51,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: 0.20,
             bollingerBands: 0.10,
             fibonacci: 0.05,
-            dca: 0.00
+            dca: 0.00,
+            reversion: 0.00
         },
         riskSettings: {
             maxPositionSize: 500,
@@ -71,7 +74,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: true,
             bollingerBands: true,
             fibonacci: false,
-            dca: false
+            dca: false,
+            reversion: false
         }
     },
     {
@@ -85,7 +89,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: 0.10,
             bollingerBands: 0.15,
             fibonacci: 0.15,
-            dca: 0.10
+            dca: 0.10,
+            reversion: 0.00
         },
         riskSettings: {
             maxPositionSize: 1000,
@@ -107,7 +112,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: true,
             bollingerBands: true,
             fibonacci: true,
-            dca: true
+            dca: true,
+            reversion: false
         }
     },
     {
@@ -121,7 +127,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: 0.10,
             bollingerBands: 0.15,
             fibonacci: 0.15,
-            dca: 0.05
+            dca: 0.05,
+            reversion: 0.00
         },
         riskSettings: {
             maxPositionSize: 2000,
@@ -143,7 +150,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: true,
             bollingerBands: true,
             fibonacci: true,
-            dca: true
+            dca: true,
+            reversion: false
         }
     },
     {
@@ -157,7 +165,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: 0.05,
             bollingerBands: 0.03,
             fibonacci: 0.02,
-            dca: 0.00
+            dca: 0.00,
+            reversion: 0.00
         },
         riskSettings: {
             maxPositionSize: 1500,
@@ -179,7 +188,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: false,
             bollingerBands: false,
             fibonacci: false,
-            dca: false
+            dca: false,
+            reversion: false
         }
     },
     {
@@ -193,7 +203,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: 0.25,
             bollingerBands: 0.25,
             fibonacci: 0.15,
-            dca: 0.00
+            dca: 0.00,
+            reversion: 0.00
         },
         riskSettings: {
             maxPositionSize: 800,
@@ -215,7 +226,8 @@ export const DEFAULT_PROFILES: TradingProfile[] = [
             trend: true,
             bollingerBands: true,
             fibonacci: true,
-            dca: false
+            dca: false,
+            reversion: false
         }
     }
 ];
@@ -236,7 +248,8 @@ export function normalizeStrategyWeights(weights: StrategyWeights): StrategyWeig
         trend: weights.trend / total,
         bollingerBands: weights.bollingerBands / total,
         fibonacci: weights.fibonacci / total,
-        dca: weights.dca / total
+        dca: weights.dca / total,
+        reversion: weights.reversion / total
     };
 }
 
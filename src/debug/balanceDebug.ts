@@ -1,7 +1,10 @@
 import dotenv from 'dotenv';
 import path from 'path';
-import { GSwap, PrivateKeySigner } from '@gala-chain/gswap-sdk';
 import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { normalizeQuote } from '../services/normalizedQuote';
+import { tokenFromClassKey } from '../services/tokenRegistry';
+import { createGSwap, getNetworkProfile } from '../services/networkProfile';
 
 dotenv.config({ path: path.join(process.cwd(), '.env') });
 
@@ -11,17 +14,14 @@ async function debugBalance(): Promise<void> {
     try {
         logger.info('🔍 Debugging wallet balance...');
         logger.info(`🔑 Wallet: ${process.env.WALLET_ADDRESS}`);
-        
-        const gswap = new GSwap({
-            signer: new PrivateKeySigner(process.env.PRIVATE_KEY!),
-            walletAddress: process.env.WALLET_ADDRESS!,
-            gatewayBaseUrl: 'https://gateway-mainnet.galachain.com',
-            dexContractBasePath: '/api/asset/dexv3-contract',
-            tokenContractBasePath: '/api/asset/token-contract',
-            bundlerBaseUrl: 'https://bundle-backend-prod1.defi.gala.com',
-            bundlingAPIBasePath: '/bundle',
-            dexBackendBaseUrl: 'https://dex-backend-prod1.defi.gala.com',
-            transactionWaitTimeoutMs: 300000,
+
+        const profile = getNetworkProfile(process.env.GALA_NETWORK || 'mainnet');
+        logger.info(`🌐 Network: ${profile.name} (${profile.gatewayBaseUrl})`);
+
+        const gswap = createGSwap({
+            profile,
+            privateKey: process.env.PRIVATE_KEY!,
+            walletAddress: process.env.WALLET_ADDRESS!
         });
 
         logger.info('📊 Fetching user assets...');
@@ -60,6 +60,14 @@ async function debugBalance(): Promise<void> {
             );
             logger.info('✅ GALA quote successful - token exists and is tradeable');
             logger.info(`Quote result: ${JSON.stringify(quote, null, 2)}`);
+
+            const normalized = normalizeQuote(
+                tokenFromClassKey('GALA|Unit|none|none', 8, 'Gala'),
+                tokenFromClassKey('GUSDC|Unit|none|none', 6, 'Gala USD Coin'),
+                TokenAmount.fromDecimal(1, 8),
+                quote
+            );
+            logger.info(`Normalized: 1 GALA → ${normalized.outAmount} GUSDC, impact ${normalized.priceImpact}%, fee tier ${normalized.feeTier}`);
         } catch (error) {
             logger.error('❌ GALA quote failed:', (error as any).message);
         }
@@ -26,7 +26,7 @@ async function main(): Promise<void> {
         const currentProfile = bot.getEnhancedTradingService().getCurrentProfile();
         logger.info(`🎯 Active Trading Profile: ${currentProfile.name}`);
         logger.info(`📝 Description: ${currentProfile.description}`);
-        logger.info(`⚖️ Strategy Weights: Arbitrage(${(currentProfile.strategyWeights.arbitrage * 100).toFixed(1)}%), Momentum(${(currentProfile.strategyWeights.momentum * 100).toFixed(1)}%), Bollinger(${(currentProfile.strategyWeights.bollingerBands * 100).toFixed(1)}%), Fibonacci(${(currentProfile.strategyWeights.fibonacci * 100).toFixed(1)}%), DCA(${(currentProfile.strategyWeights.dca * 100).toFixed(1)}%)`);
+        logger.info(`⚖️ Strategy Weights: Arbitrage(${(currentProfile.strategyWeights.arbitrage * 100).toFixed(1)}%), Momentum(${(currentProfile.strategyWeights.momentum * 100).toFixed(1)}%), Bollinger(${(currentProfile.strategyWeights.bollingerBands * 100).toFixed(1)}%), Fibonacci(${(currentProfile.strategyWeights.fibonacci * 100).toFixed(1)}%), DCA(${(currentProfile.strategyWeights.dca * 100).toFixed(1)}%), Reversion(${(currentProfile.strategyWeights.reversion * 100).toFixed(1)}%)`);
 
         // Initialize trading dashboard
         const tradingDashboard = new TradingDashboard(
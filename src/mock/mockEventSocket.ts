@@ -0,0 +1,166 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { createHash, randomUUID } from 'crypto';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const PING_INTERVAL_MS = 25000;
+const PING_TIMEOUT_MS = 20000;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+
+/**
+ * Just enough of Socket.IO v4 (Engine.IO over a websocket) for the SDK's
+ * bundler event client: the open handshake, the default namespace connect,
+ * pings and event frames. Every event is broadcast to every client, like the
+ * bundler does; the SDK picks out the transaction ids it is waiting on.
+ */
+export class MockEventSocket {
+    private path: string;
+    private sockets: Set<Duplex> = new Set();
+    private listeners: Set<Duplex> = new Set();
+    private pingTimer: NodeJS.Timeout;
+
+    constructor(server: Server, path: string = '/socket.io/') {
+        this.path = path;
+        server.on('upgrade', (req, socket) => this.handleUpgrade(req, socket));
+        this.pingTimer = setInterval(() => {
+            for (const socket of this.listeners) this.sendText(socket, '2');
+        }, PING_INTERVAL_MS);
+    }
+
+    get connectedClients(): number {
+        return this.listeners.size;
+    }
+
+    emit(event: string, ...args: unknown[]): void {
+        const packet = `42${JSON.stringify([event, ...args])}`;
+        for (const socket of this.listeners) this.sendText(socket, packet);
+    }
+
+    close(): void {
+        clearInterval(this.pingTimer);
+        for (const socket of this.sockets) socket.destroy();
+        this.sockets.clear();
+        this.listeners.clear();
+    }
+
+    private handleUpgrade(req: IncomingMessage, socket: Duplex): void {
+        const pathname = (req.url || '').split('?')[0];
+        const key = req.headers['sec-websocket-key'];
+        if (pathname !== this.path || typeof key !== 'string') {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+
+        const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '',
+            ''
+        ].join('\r\n'));
+        this.sockets.add(socket);
+
+        this.sendText(socket, `0${JSON.stringify({
+            sid: randomUUID(),
+            upgrades: [],
+            pingInterval: PING_INTERVAL_MS,
+            pingTimeout: PING_TIMEOUT_MS,
+            maxPayload: 1000000
+        })}`);
+
+        let buffered = Buffer.alloc(0);
+        socket.on('data', (chunk: Buffer) => {
+            buffered = Buffer.concat([buffered, chunk]);
+            let frame: { opcode: number; payload: Buffer; length: number } | null;
+            while ((frame = readFrame(buffered))) {
+                buffered = buffered.subarray(frame.length);
+                this.handleFrame(socket, frame.opcode, frame.payload);
+            }
+        });
+        const forget = () => {
+            this.sockets.delete(socket);
+            this.listeners.delete(socket);
+        };
+        socket.on('close', forget);
+        socket.on('error', forget);
+    }
+
+    private handleFrame(socket: Duplex, opcode: number, payload: Buffer): void {
+        if (opcode === OPCODE_CLOSE) {
+            socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+            return;
+        }
+        if (opcode === OPCODE_PING) {
+            socket.write(encodeFrame(0xA, payload));
+            return;
+        }
+        if (opcode !== OPCODE_TEXT) return;
+
+        const packet = payload.toString('utf8');
+        if (packet.startsWith('40')) {
+            // Namespace connect: only then does the client count as listening
+            this.listeners.add(socket);
+            this.sendText(socket, `40${JSON.stringify({ sid: randomUUID() })}`);
+        } else if (packet.startsWith('41') || packet === '1') {
+            this.listeners.delete(socket);
+            socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        }
+    }
+
+    private sendText(socket: Duplex, text: string): void {
+        if (!socket.destroyed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    }
+}
+
+// Server frames are sent unmasked and unfragmented
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+// Client frames are always masked; returns null until a whole frame has arrived
+function readFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | null {
+    if (buffer.length < 2) return null;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let payloadLength = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (payloadLength === 126) {
+        if (buffer.length < 4) return null;
+        payloadLength = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (payloadLength === 127) {
+        if (buffer.length < 10) return null;
+        payloadLength = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < offset + maskLength + payloadLength) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset + maskLength, offset + maskLength + payloadLength));
+    if (masked) {
+        const mask = buffer.subarray(offset, offset + 4);
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    return { opcode, payload, length: offset + maskLength + payloadLength };
+}
@@ -0,0 +1,650 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import BigNumber from 'bignumber.js';
+import { FEE_TIER, GalaChainTokenClassKey } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { GalaToken } from '../services/galaDexService';
+import { TokenRegistry, parseClassKey, stringifyClassKey } from '../services/tokenRegistry';
+import { MockEventSocket } from './mockEventSocket';
+import { InsufficientLiquidityError, MockPool, poolKey } from './mockPool';
+import { MockPosition, MockPositionBook } from './mockPositions';
+
+export interface MockFailureModes {
+    latencyMs: number; // Added to every simulated response
+    errorRate: number; // Fraction of requests answered with a 503
+    rateLimitPerSec: number; // Requests per second before answering 429, 0 for no limit
+    missingPools: string[]; // Pools reported as not found, e.g. "GALA/GUSDC@500"
+    rejectRate: number; // Fraction of submitted transactions that fail on chain
+    dropRate: number; // Fraction of submitted transactions that never confirm
+    confirmationDelayMs: number;
+}
+
+export interface MockGatewayConfig {
+    usdPrices: Record<string, number>; // By symbol; pools need a price for both tokens
+    walletBalances: Record<string, string>; // By symbol, given to every wallet on first use
+    poolLiquidityUsd: number;
+    feeTierSkew: Record<string, number>; // Relative price offset per fee tier, so tiers disagree
+    priceStepMs: number; // How often prices take a random step, 0 to hold them still
+    volatility: number; // Largest relative move per step
+    failures: MockFailureModes;
+}
+
+export type MockTransactionStatus = 'PENDING' | 'PROCESSED' | 'FAILED';
+
+export interface MockTransaction {
+    id: string;
+    method: string;
+    wallet: string;
+    status: MockTransactionStatus;
+    submittedAt: number;
+    completedAt?: number;
+    transactionHash?: string;
+    data?: Record<string, unknown>;
+    error?: { ErrorKey: string; Message: string };
+}
+
+const BUNDLER_METHODS = ['Swap', 'AddLiquidity', 'RemoveLiquidity', 'CollectPositionFees'];
+
+const DEFAULT_FAILURES: MockFailureModes = {
+    latencyMs: 0,
+    errorRate: 0,
+    rateLimitPerSec: 0,
+    missingPools: [],
+    rejectRate: 0,
+    dropRate: 0,
+    confirmationDelayMs: 1000
+};
+
+class MockHttpError extends Error {
+    constructor(readonly status: number, readonly errorKey: string, message: string) {
+        super(message);
+    }
+}
+
+export function loadMockGatewayConfig(file: string = Config.MOCK_GATEWAY_CONFIG): MockGatewayConfig {
+    const raw = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), 'utf8'));
+    return {
+        usdPrices: raw.usdPrices || {},
+        walletBalances: raw.walletBalances || {},
+        poolLiquidityUsd: raw.poolLiquidityUsd ?? 250000,
+        feeTierSkew: raw.feeTierSkew || {},
+        priceStepMs: raw.priceStepMs ?? 0,
+        volatility: raw.volatility ?? 0,
+        failures: { ...DEFAULT_FAILURES, ...raw.failures }
+    };
+}
+
+/**
+ * A stand-in for the GalaChain gateway, dex backend and bundler on one port,
+ * so the bot can run end to end without network access. Pools are seeded
+ * from the token registry at configured USD prices and priced with full-range
+ * concentrated-liquidity math; swaps and liquidity changes settle against the
+ * pools, a per-wallet ledger and a book of positions, and confirmations arrive
+ * over the bundler event socket.
+ */
+export class MockGateway {
+    private logger = new Logger('MockGateway');
+    private config: MockGatewayConfig;
+    private tokens: Map<string, GalaToken> = new Map();
+    private pools: Map<string, MockPool> = new Map();
+    private wallets: Map<string, Map<string, BigNumber>> = new Map();
+    private transactions: Map<string, MockTransaction> = new Map();
+    private positions = new MockPositionBook();
+    private server?: http.Server;
+    private events?: MockEventSocket;
+    private priceTimer?: NodeJS.Timeout;
+    private requestWindow = { second: 0, count: 0 };
+    private referenceOverrides: Record<string, number> = {};
+    private dexContractBasePath: string;
+    private bundlingAPIBasePath: string;
+
+    constructor(config: MockGatewayConfig = loadMockGatewayConfig(), dexContractBasePath: string = '/api/asset/dexv3-contract', bundlingAPIBasePath: string = '/bundle') {
+        this.config = config;
+        this.dexContractBasePath = dexContractBasePath;
+        this.bundlingAPIBasePath = bundlingAPIBasePath;
+    }
+
+    async start(port: number = Config.MOCK_GATEWAY_PORT): Promise<void> {
+        await this.seedPools();
+
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => this.sendError(res, error));
+        });
+        this.events = new MockEventSocket(this.server);
+
+        if (this.config.priceStepMs > 0 && this.config.volatility > 0) {
+            this.priceTimer = setInterval(() => this.stepPrices(), this.config.priceStepMs);
+        }
+
+        await new Promise<void>(resolve => this.server!.listen(port, resolve));
+        this.logger.info(`🧰 Mock gateway listening on http://localhost:${port} with ${this.pools.size} pools`);
+    }
+
+    async stop(): Promise<void> {
+        if (this.priceTimer) clearInterval(this.priceTimer);
+        this.events?.close();
+        if (this.server) {
+            await new Promise<void>(resolve => this.server!.close(() => resolve()));
+            this.server = undefined;
+        }
+    }
+
+    setFailureModes(failures: Partial<MockFailureModes>): MockFailureModes {
+        this.config.failures = { ...this.config.failures, ...failures };
+        this.logger.info('🧨 Failure modes updated:', this.config.failures);
+        return this.config.failures;
+    }
+
+    /** Moves the stub reference price away from the pools' seed prices, e.g. to trip the divergence guard. */
+    setReferencePrices(prices: Record<string, number>): Record<string, number> {
+        this.referenceOverrides = { ...this.referenceOverrides, ...prices };
+        this.logger.info('🧭 Reference prices overridden:', this.referenceOverrides);
+        return this.getReferencePrices();
+    }
+
+    getTransaction(id: string): MockTransaction | undefined {
+        return this.transactions.get(id);
+    }
+
+    private async seedPools(): Promise<void> {
+        const registry = new TokenRegistry('', 'file');
+        await registry.load();
+
+        this.pools.clear();
+        for (const token of registry.getTokens()) {
+            this.tokens.set(token.classKey, token);
+        }
+
+        for (const pool of registry.getPools()) {
+            const [key0, key1] = pool.token0.localeCompare(pool.token1) < 0 ? [pool.token0, pool.token1] : [pool.token1, pool.token0];
+            const token0 = this.tokens.get(key0);
+            const token1 = this.tokens.get(key1);
+            const usd0 = token0 && this.config.usdPrices[token0.symbol];
+            const usd1 = token1 && this.config.usdPrices[token1.symbol];
+            if (!token0 || !token1 || !usd0 || !usd1) {
+                this.logger.warn(`Skipping pool ${key0}/${key1}@${pool.fee}: no USD price configured`);
+                continue;
+            }
+
+            const skew = 1 + (this.config.feeTierSkew[pool.fee] || 0);
+            const mockPool = MockPool.fromUsdPrices(token0, token1, pool.fee, usd0 * skew, usd1, this.config.poolLiquidityUsd);
+            this.pools.set(mockPool.key, mockPool);
+        }
+    }
+
+    // The configured USD prices, which the pools drift away from as prices step
+    private getReferencePrices(): Record<string, number> {
+        return { ...this.config.usdPrices, ...this.referenceOverrides };
+    }
+
+    private stepPrices(): void {
+        for (const pool of this.pools.values()) {
+            pool.drift(1 + (Math.random() * 2 - 1) * this.config.volatility);
+        }
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const route = `${req.method} ${url.pathname}`;
+
+        // Control endpoints are never delayed or failed
+        if (route === 'GET /health') return this.send(res, { status: 'ok' });
+        if (route === 'GET /mock/state') return this.send(res, this.describeState());
+        if (route === 'POST /mock/failures') return this.send(res, this.setFailureModes(await this.readBody(req)));
+        // Stand-in for an external price API; it isn't the gateway, so gateway failure modes don't apply
+        if (route === 'GET /reference/prices') return this.send(res, { timestamp: Date.now(), prices: this.getReferencePrices() });
+        if (route === 'POST /mock/reference') return this.send(res, this.setReferencePrices(await this.readBody(req)));
+
+        await this.simulateConditions();
+
+        const dex = this.dexContractBasePath;
+        if (route === `POST ${dex}/GetCompositePool`) {
+            const body = await this.readBody(req);
+            return this.send(res, { Status: 1, Data: this.getPool(body.token0, body.token1, body.fee).toCompositePool() });
+        }
+        if (route === `POST ${dex}/GetPoolData`) {
+            const body = await this.readBody(req);
+            return this.send(res, { Status: 1, Data: this.getPool(body.token0, body.token1, body.fee).toPoolData() });
+        }
+        if (route === `POST ${dex}/QuoteExactAmount`) {
+            const body = await this.readBody(req);
+            const quote = this.quote(this.getPool(body.token0, body.token1, body.fee), body.zeroForOne, body.amount);
+            return this.send(res, {
+                Status: 1,
+                Data: {
+                    amount0: quote.amount0.toFixed(),
+                    amount1: quote.amount1.toFixed(),
+                    currentSqrtPrice: quote.currentSqrtPrice.toFixed(),
+                    newSqrtPrice: quote.newSqrtPrice.toFixed()
+                }
+            });
+        }
+        if (route === `POST ${dex}/GetUserPositions`) {
+            return this.send(res, { Status: 1, Data: this.getUserPositions(await this.readBody(req)) });
+        }
+        // GetPositions is what the SDK reads one position by; GetPositionByOwner takes the same body
+        if (route === `POST ${dex}/GetPositions` || route === `POST ${dex}/GetPositionByOwner`) {
+            const body = await this.readBody(req);
+            return this.send(res, { Status: 1, Data: this.positions.toPositionData(this.getPosition(body)) });
+        }
+        if (route === 'GET /user/assets') {
+            return this.send(res, this.getUserAssets(url.searchParams));
+        }
+        if (route === `GET ${Config.TOKEN_REGISTRY_POOLS_PATH}`) {
+            return this.send(res, this.listPools(url.searchParams));
+        }
+        if (route === `POST ${this.bundlingAPIBasePath}`) {
+            const tx = this.submit(await this.readBody(req));
+            return this.send(res, { data: tx.id, message: 'Transaction submitted', error: false });
+        }
+        if (req.method === 'GET' && url.pathname.startsWith('/transaction/')) {
+            const tx = this.transactions.get(decodeURIComponent(url.pathname.slice('/transaction/'.length)));
+            if (!tx) throw new MockHttpError(404, 'OBJECT_NOT_FOUND', 'Unknown transaction');
+            return this.send(res, tx);
+        }
+
+        throw new MockHttpError(404, 'NOT_FOUND', `No mock route for ${route}`);
+    }
+
+    private async simulateConditions(): Promise<void> {
+        const { latencyMs, errorRate, rateLimitPerSec } = this.config.failures;
+
+        if (rateLimitPerSec > 0) {
+            const second = Math.floor(Date.now() / 1000);
+            if (this.requestWindow.second !== second) this.requestWindow = { second, count: 0 };
+            if (++this.requestWindow.count > rateLimitPerSec) {
+                throw new MockHttpError(429, 'TOO_MANY_REQUESTS', 'Rate limit exceeded');
+            }
+        }
+        if (latencyMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, latencyMs));
+        }
+        if (errorRate > 0 && Math.random() < errorRate) {
+            throw new MockHttpError(503, 'SERVICE_UNAVAILABLE', 'Simulated gateway outage');
+        }
+    }
+
+    private getPool(tokenA: unknown, tokenB: unknown, fee: unknown): MockPool {
+        const pool = this.pools.get(poolKey(classKeyOf(tokenA), classKeyOf(tokenB), Number(fee)));
+        if (!pool || this.isMissing(pool)) {
+            throw new MockHttpError(404, 'OBJECT_NOT_FOUND', `No pool for ${classKeyOf(tokenA)} / ${classKeyOf(tokenB)} @ ${fee}`);
+        }
+        return pool;
+    }
+
+    private isMissing(pool: MockPool): boolean {
+        const { symbol: a } = pool.token0;
+        const { symbol: b } = pool.token1;
+        return this.config.failures.missingPools.some(entry => entry === `${a}/${b}@${pool.fee}` || entry === `${b}/${a}@${pool.fee}`);
+    }
+
+    private quote(pool: MockPool, zeroForOne: boolean, amount: BigNumber.Value) {
+        try {
+            return pool.quote(zeroForOne, amount);
+        } catch (error) {
+            if (error instanceof InsufficientLiquidityError) {
+                throw new MockHttpError(400, 'INSUFFICIENT_LIQUIDITY', error.message);
+            }
+            throw error;
+        }
+    }
+
+    private getUserPositions(body: any): Record<string, unknown> {
+        const start = parseInt(body.bookmark || '0') || 0;
+        const limit = parseInt(body.limit || '10') || 10;
+        const positions = this.positions.listFor(body.user || '');
+        const page = positions.slice(start, start + limit);
+        return {
+            nextBookMark: start + limit < positions.length ? String(start + limit) : '',
+            positions: page.map(position => this.positions.toUserPosition(position))
+        };
+    }
+
+    private getPosition(body: any): MockPosition {
+        const pool = this.getPool(body.token0, body.token1, body.fee);
+        const position = this.positions.find(body.owner || '', pool, Number(body.tickLower), Number(body.tickUpper));
+        if (!position) {
+            throw new MockHttpError(404, 'OBJECT_NOT_FOUND', `No position for ${body.owner} in ${pool.key} [${body.tickLower}, ${body.tickUpper}]`);
+        }
+        return position;
+    }
+
+    private getWallet(address: string): Map<string, BigNumber> {
+        let wallet = this.wallets.get(address);
+        if (!wallet) {
+            wallet = new Map();
+            for (const token of this.tokens.values()) {
+                const balance = this.config.walletBalances[token.symbol];
+                if (balance) wallet.set(token.classKey, new BigNumber(balance));
+            }
+            this.wallets.set(address, wallet);
+        }
+        return wallet;
+    }
+
+    private getUserAssets(params: URLSearchParams): Record<string, unknown> {
+        const page = parseInt(params.get('page') || '1');
+        const limit = parseInt(params.get('limit') || '10');
+        const wallet = this.getWallet(params.get('address') || '');
+        const held = Array.from(wallet.entries())
+            .filter(([, quantity]) => quantity.gt(0))
+            .map(([classKey, quantity]) => {
+                const token = this.tokens.get(classKey)!;
+                return {
+                    image: '',
+                    name: token.name,
+                    decimals: String(token.decimals),
+                    verify: true,
+                    symbol: token.symbol,
+                    quantity: quantity.toFixed()
+                };
+            });
+
+        return {
+            status: 200,
+            error: false,
+            message: 'OK',
+            data: { token: held.slice((page - 1) * limit, page * limit), count: held.length }
+        };
+    }
+
+    private listPools(params: URLSearchParams): Record<string, unknown> {
+        const page = parseInt(params.get('page') || '1');
+        const limit = parseInt(params.get('limit') || '20');
+        const pools = Array.from(this.pools.values()).filter(pool => !this.isMissing(pool)).map(pool => ({
+            poolHash: pool.key,
+            token0: pool.token0.classKey,
+            token1: pool.token1.classKey,
+            token0Symbol: pool.token0.symbol,
+            token1Symbol: pool.token1.symbol,
+            token0Name: pool.token0.name,
+            token1Name: pool.token1.name,
+            token0Decimals: pool.token0.decimals,
+            token1Decimals: pool.token1.decimals,
+            fee: pool.fee,
+            tvl: this.config.poolLiquidityUsd
+        }));
+
+        return { status: 200, error: false, data: { pools: pools.slice((page - 1) * limit, page * limit), count: pools.length } };
+    }
+
+    private submit(body: any): MockTransaction {
+        const dto = body?.signedDto;
+        if (!body?.method || !dto) {
+            throw new MockHttpError(400, 'VALIDATION_FAILED', 'Expected { method, signedDto }');
+        }
+        if (!BUNDLER_METHODS.includes(body.method)) {
+            throw new MockHttpError(400, 'NOT_IMPLEMENTED', `The mock bundler does not support ${body.method}`);
+        }
+
+        const tx: MockTransaction = {
+            id: randomUUID(),
+            method: body.method,
+            // AddLiquidity names its wallet the owner, everything else the recipient
+            wallet: dto.recipient ?? dto.owner,
+            status: 'PENDING',
+            submittedAt: Date.now()
+        };
+        this.transactions.set(tx.id, tx);
+
+        setTimeout(() => this.settle(tx, dto), this.config.failures.confirmationDelayMs);
+        return tx;
+    }
+
+    private settle(tx: MockTransaction, dto: any): void {
+        const { rejectRate, dropRate } = this.config.failures;
+
+        if (dropRate > 0 && Math.random() < dropRate) {
+            this.logger.info(`🕳️ Dropping transaction ${tx.id}, it will never confirm`);
+            return;
+        }
+
+        try {
+            if (rejectRate > 0 && Math.random() < rejectRate) {
+                throw new MockHttpError(400, 'TRANSACTION_REJECTED', 'Simulated on-chain rejection');
+            }
+
+            const pool = this.getPool(dto.token0, dto.token1, dto.fee);
+            const wallet = this.getWallet(tx.wallet);
+            // Charged up front so the transaction can't spend the GALA it owes; refunded if it fails
+            const networkFee = this.chargeNetworkFee(wallet);
+            let data: Record<string, unknown>;
+            try {
+                data = tx.method === 'AddLiquidity' ? this.settleAddLiquidity(tx, dto, pool, wallet)
+                    : tx.method === 'RemoveLiquidity' ? this.settleRemoveLiquidity(tx, dto, pool, wallet)
+                    : tx.method === 'CollectPositionFees' ? this.settleCollect(tx, dto, pool, wallet)
+                    : this.settleSwap(tx, dto, pool, wallet);
+            } catch (error) {
+                this.refundNetworkFee(wallet, networkFee);
+                throw error;
+            }
+
+            tx.status = 'PROCESSED';
+            tx.transactionHash = randomBytes(32).toString('hex');
+            tx.data = { ...data, networkFee: networkFee.toFixed(), userAddress: tx.wallet, timeStamp: Date.now() };
+        } catch (error) {
+            tx.status = 'FAILED';
+            tx.error = error instanceof MockHttpError
+                ? { ErrorKey: error.errorKey, Message: error.message }
+                : { ErrorKey: 'UNKNOWN', Message: (error as Error).message };
+            this.logger.info(`❌ ${tx.id}: ${tx.error.ErrorKey} ${tx.error.Message}`);
+        }
+
+        tx.completedAt = Date.now();
+        this.events?.emit(tx.id, {
+            status: tx.status,
+            data: tx.status === 'PROCESSED'
+                ? { transactionId: tx.transactionHash, Data: tx.data }
+                : { ...tx.error }
+        });
+    }
+
+    private settleSwap(tx: MockTransaction, dto: any, pool: MockPool, wallet: Map<string, BigNumber>): Record<string, unknown> {
+        const zeroForOne = Boolean(dto.zeroForOne);
+        const result = this.quote(pool, zeroForOne, dto.amount);
+        const [tokenIn, tokenOut] = zeroForOne ? [pool.token0, pool.token1] : [pool.token1, pool.token0];
+        const amountIn = zeroForOne ? result.amount0 : result.amount1;
+        const amountOut = (zeroForOne ? result.amount1 : result.amount0).abs();
+
+        if (dto.amountInMaximum !== undefined && amountIn.gt(dto.amountInMaximum)) {
+            throw new MockHttpError(409, 'SLIPPAGE_TOLERANCE_EXCEEDED', `Needs ${amountIn} ${tokenIn.symbol}, maximum ${dto.amountInMaximum}`);
+        }
+        // amountOutMinimum is signed like a pool outflow, so it arrives negative
+        if (dto.amountOutMinimum !== undefined && amountOut.lt(new BigNumber(dto.amountOutMinimum).abs())) {
+            throw new MockHttpError(409, 'SLIPPAGE_TOLERANCE_EXCEEDED', `Would receive ${amountOut} ${tokenOut.symbol}, minimum ${new BigNumber(dto.amountOutMinimum).abs()}`);
+        }
+
+        this.debit(wallet, tokenIn, amountIn);
+        pool.apply(result);
+        this.positions.accrueSwapFee(pool, zeroForOne, result.feeAmount);
+        this.credit(wallet, tokenOut, amountOut);
+
+        this.logger.info(`✅ ${tx.id}: ${amountIn} ${tokenIn.symbol} -> ${amountOut} ${tokenOut.symbol} @ ${pool.fee}`);
+        return {
+            token0: pool.token0.classKey,
+            token1: pool.token1.classKey,
+            amount0: result.amount0.toFixed(),
+            amount1: result.amount1.toFixed(),
+            poolFee: pool.fee,
+            feeAmount: result.feeAmount.toFixed()
+        };
+    }
+
+    private settleAddLiquidity(tx: MockTransaction, dto: any, pool: MockPool, wallet: Map<string, BigNumber>): Record<string, unknown> {
+        const tickLower = Number(dto.tickLower);
+        const tickUpper = Number(dto.tickUpper);
+        if (!(tickLower < tickUpper) || tickLower % pool.tickSpacing !== 0 || tickUpper % pool.tickSpacing !== 0) {
+            throw new MockHttpError(400, 'VALIDATION_FAILED', `Ticks [${dto.tickLower}, ${dto.tickUpper}] must be ascending multiples of ${pool.tickSpacing}`);
+        }
+        const existing = dto.positionId ? this.positions.get(tx.wallet, dto.positionId) : undefined;
+        if (dto.positionId && (!existing || existing.pool !== pool || existing.tickLower !== tickLower || existing.tickUpper !== tickUpper)) {
+            throw new MockHttpError(404, 'OBJECT_NOT_FOUND', `No position ${dto.positionId} in ${pool.key} [${tickLower}, ${tickUpper}]`);
+        }
+
+        const { liquidity, amount0, amount1 } = this.positions.quoteAdd(pool, tickLower, tickUpper, dto.amount0Desired, dto.amount1Desired);
+        if (!liquidity.isFinite() || !liquidity.gt(0)) {
+            throw new MockHttpError(400, 'VALIDATION_FAILED', `${dto.amount0Desired} / ${dto.amount1Desired} fund no liquidity in [${tickLower}, ${tickUpper}]`);
+        }
+        this.checkMinimums(pool, { amount0, amount1 }, dto);
+
+        this.debit(wallet, pool.token0, amount0);
+        this.debit(wallet, pool.token1, amount1);
+        const position = this.positions.add(tx.wallet, pool, tickLower, tickUpper, liquidity, existing);
+
+        this.logger.info(`✅ ${tx.id}: added ${amount0} ${pool.token0.symbol} + ${amount1} ${pool.token1.symbol} to ${position.positionId}`);
+        return this.liquidityResult(pool, position, amount0, amount1);
+    }
+
+    private settleRemoveLiquidity(tx: MockTransaction, dto: any, pool: MockPool, wallet: Map<string, BigNumber>): Record<string, unknown> {
+        const position = this.getOwnPosition(tx, dto, pool);
+        const liquidity = new BigNumber(dto.amount);
+        if (!liquidity.gt(0) || liquidity.gt(position.liquidity)) {
+            throw new MockHttpError(400, 'VALIDATION_FAILED', `Cannot remove ${dto.amount} of ${position.liquidity.toFixed()} liquidity from ${position.positionId}`);
+        }
+
+        const { amount0, amount1 } = this.positions.quoteRemove(position, liquidity);
+        this.checkMinimums(pool, { amount0, amount1 }, dto);
+
+        this.positions.remove(position, liquidity);
+        this.credit(wallet, pool.token0, amount0);
+        this.credit(wallet, pool.token1, amount1);
+
+        this.logger.info(`✅ ${tx.id}: removed ${amount0} ${pool.token0.symbol} + ${amount1} ${pool.token1.symbol} from ${position.positionId}`);
+        return this.liquidityResult(pool, position, amount0.negated(), amount1.negated());
+    }
+
+    private settleCollect(tx: MockTransaction, dto: any, pool: MockPool, wallet: Map<string, BigNumber>): Record<string, unknown> {
+        const position = this.getOwnPosition(tx, dto, pool);
+        const { amount0, amount1 } = this.positions.collect(position, dto.amount0Requested, dto.amount1Requested);
+
+        this.credit(wallet, pool.token0, amount0);
+        this.credit(wallet, pool.token1, amount1);
+
+        this.logger.info(`✅ ${tx.id}: collected ${amount0} ${pool.token0.symbol} + ${amount1} ${pool.token1.symbol} from ${position.positionId}`);
+        return this.liquidityResult(pool, position, amount0, amount1);
+    }
+
+    private getOwnPosition(tx: MockTransaction, dto: any, pool: MockPool): MockPosition {
+        const position = this.positions.get(tx.wallet, dto.positionId);
+        if (!position || position.pool !== pool || position.tickLower !== Number(dto.tickLower) || position.tickUpper !== Number(dto.tickUpper)) {
+            throw new MockHttpError(404, 'OBJECT_NOT_FOUND', `No position ${dto.positionId} for ${tx.wallet} in ${pool.key} [${dto.tickLower}, ${dto.tickUpper}]`);
+        }
+        return position;
+    }
+
+    private checkMinimums(pool: MockPool, amounts: { amount0: BigNumber; amount1: BigNumber }, dto: any): void {
+        if (dto.amount0Min !== undefined && amounts.amount0.lt(dto.amount0Min)) {
+            throw new MockHttpError(409, 'SLIPPAGE_TOLERANCE_EXCEEDED', `Would take ${amounts.amount0} ${pool.token0.symbol}, minimum ${dto.amount0Min}`);
+        }
+        if (dto.amount1Min !== undefined && amounts.amount1.lt(dto.amount1Min)) {
+            throw new MockHttpError(409, 'SLIPPAGE_TOLERANCE_EXCEEDED', `Would take ${amounts.amount1} ${pool.token1.symbol}, minimum ${dto.amount1Min}`);
+        }
+    }
+
+    // Amounts are [token0, token1], positive into the pool for deposits and out of it otherwise
+    private liquidityResult(pool: MockPool, position: MockPosition, amount0: BigNumber, amount1: BigNumber): Record<string, unknown> {
+        return {
+            positionId: position.positionId,
+            poolHash: pool.key,
+            poolFee: pool.fee,
+            amounts: [amount0.toFixed(), amount1.toFixed()],
+            liquidity: position.liquidity.toFixed()
+        };
+    }
+
+    // NETWORK_FEE_GALA per transaction, the same fee the bot estimates
+    private chargeNetworkFee(wallet: Map<string, BigNumber>): BigNumber {
+        const gala = this.tokens.get('GALA|Unit|none|none');
+        const fee = new BigNumber(Config.NETWORK_FEE_GALA);
+        if (!gala || !fee.gt(0)) return new BigNumber(0);
+        this.debit(wallet, gala, fee);
+        return fee;
+    }
+
+    private refundNetworkFee(wallet: Map<string, BigNumber>, fee: BigNumber): void {
+        const gala = this.tokens.get('GALA|Unit|none|none');
+        if (gala && fee.gt(0)) this.credit(wallet, gala, fee);
+    }
+
+    private debit(wallet: Map<string, BigNumber>, token: GalaToken, amount: BigNumber): void {
+        const balance = wallet.get(token.classKey) || new BigNumber(0);
+        if (balance.lt(amount)) {
+            throw new MockHttpError(409, 'INSUFFICIENT_BALANCE', `Needs ${amount} ${token.symbol}, has ${balance}`);
+        }
+        wallet.set(token.classKey, balance.minus(amount));
+    }
+
+    private credit(wallet: Map<string, BigNumber>, token: GalaToken, amount: BigNumber): void {
+        wallet.set(token.classKey, (wallet.get(token.classKey) || new BigNumber(0)).plus(amount));
+    }
+
+    private describeState(): Record<string, unknown> {
+        return {
+            pools: Array.from(this.pools.values()).map(pool => ({
+                pool: pool.key,
+                price: pool.price.toNumber(),
+                reserve0: pool.reserve0.toNumber(),
+                reserve1: pool.reserve1.toNumber()
+            })),
+            wallets: Object.fromEntries(Array.from(this.wallets.entries()).map(([address, wallet]) => [
+                address,
+                Object.fromEntries(Array.from(wallet.entries()).map(([classKey, quantity]) => [classKey, quantity.toFixed()]))
+            ])),
+            positions: this.positions.all().map(position => ({
+                ...this.positions.toUserPosition(position),
+                owner: position.owner,
+                tokensOwed0: position.tokensOwed0.toFixed(),
+                tokensOwed1: position.tokensOwed1.toFixed()
+            })),
+            transactions: Array.from(this.transactions.values()).slice(-50),
+            socketClients: this.events?.connectedClients || 0,
+            failures: this.config.failures
+        };
+    }
+
+    private async readBody(req: http.IncomingMessage): Promise<any> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        if (chunks.length === 0) return {};
+        try {
+            return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        } catch {
+            throw new MockHttpError(400, 'VALIDATION_FAILED', 'Request body is not valid JSON');
+        }
+    }
+
+    private send(res: http.ServerResponse, body: unknown, status: number = 200): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    // Errors use the gateway's envelope so the SDK surfaces the same GSwapSDKError codes
+    private sendError(res: http.ServerResponse, error: unknown): void {
+        const httpError = error instanceof MockHttpError
+            ? error
+            : new MockHttpError(500, 'INTERNAL_ERROR', (error as Error)?.message || String(error));
+        if (httpError.status === 500) this.logger.error('Mock request failed:', error);
+        this.send(res, {
+            error: { Status: 0, ErrorCode: httpError.status, ErrorKey: httpError.errorKey, Message: httpError.message }
+        }, httpError.status);
+    }
+}
+
+function classKeyOf(value: unknown): string {
+    if (typeof value === 'string') return stringifyClassKey(parseClassKey(value));
+    return stringifyClassKey(value as GalaChainTokenClassKey);
+}
+
+if (require.main === module) {
+    const gateway = new MockGateway();
+    gateway.start().catch(error => {
+        console.error('Failed to start mock gateway:', error);
+        process.exit(1);
+    });
+    process.on('SIGINT', () => {
+        gateway.stop().then(() => process.exit(0));
+    });
+}
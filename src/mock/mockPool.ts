@@ -0,0 +1,232 @@
+import BigNumber from 'bignumber.js';
+import { FEE_TIER } from '@gala-chain/gswap-sdk';
+import { GalaToken } from '../services/galaDexService';
+
+const BN = BigNumber.clone({ DECIMAL_PLACES: 40 });
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+
+export const TICK_SPACINGS: Record<FEE_TIER, number> = {
+    500: 10,
+    3000: 60,
+    10000: 200
+};
+
+/**
+ * Pool-side amounts of a swap in GalaChain's sign convention: positive flows
+ * into the pool (the trader pays it), negative flows out (the trader gets it).
+ */
+export interface MockSwapResult {
+    amount0: BigNumber;
+    amount1: BigNumber;
+    currentSqrtPrice: BigNumber;
+    newSqrtPrice: BigNumber;
+    feeAmount: BigNumber; // In the input token
+}
+
+export class InsufficientLiquidityError extends Error {
+    constructor(pool: MockPool) {
+        super(`Not enough liquidity in ${pool.token0.symbol}/${pool.token1.symbol} @ ${pool.fee}`);
+        this.name = 'InsufficientLiquidityError';
+    }
+}
+
+/**
+ * A concentrated-liquidity pool with a single full-range position, which
+ * behaves like a constant-product pool: reserves are L/√P of token0 and L·√P
+ * of token1, where √P is sqrt(token1 per token0) in whole tokens.
+ */
+export class MockPool {
+    readonly token0: GalaToken;
+    readonly token1: GalaToken;
+    readonly fee: FEE_TIER;
+    sqrtPrice: BigNumber;
+    readonly liquidity: BigNumber;
+
+    constructor(token0: GalaToken, token1: GalaToken, fee: FEE_TIER, sqrtPrice: BigNumber, liquidity: BigNumber) {
+        this.token0 = token0;
+        this.token1 = token1;
+        this.fee = fee;
+        this.sqrtPrice = sqrtPrice;
+        this.liquidity = liquidity;
+    }
+
+    /**
+     * Seeds a pool at the given USD prices holding tvlUsd split evenly
+     * between both sides.
+     */
+    static fromUsdPrices(token0: GalaToken, token1: GalaToken, fee: FEE_TIER, usd0: number, usd1: number, tvlUsd: number): MockPool {
+        const sqrtPrice = new BN(usd0).div(usd1).sqrt();
+        const reserve1 = new BN(tvlUsd).div(2).div(usd1);
+        return new MockPool(token0, token1, fee, sqrtPrice, reserve1.div(sqrtPrice));
+    }
+
+    get key(): string {
+        return poolKey(this.token0.classKey, this.token1.classKey, this.fee);
+    }
+
+    get tickSpacing(): number {
+        return TICK_SPACINGS[this.fee];
+    }
+
+    /** token1 per token0 */
+    get price(): BigNumber {
+        return this.sqrtPrice.pow(2);
+    }
+
+    get reserve0(): BigNumber {
+        return this.liquidity.div(this.sqrtPrice);
+    }
+
+    get reserve1(): BigNumber {
+        return this.liquidity.times(this.sqrtPrice);
+    }
+
+    /**
+     * Simulates a swap without changing the pool. A positive amount is an exact
+     * input of the token being sold, a negative one an exact output of the token
+     * being bought, matching the gateway's QuoteExactAmount and Swap calls.
+     */
+    quote(zeroForOne: boolean, amount: BigNumber.Value): MockSwapResult {
+        const specified = new BN(amount);
+        const exactInput = specified.gt(0);
+        const feeFraction = new BN(this.fee).div(1_000_000);
+        const L = this.liquidity;
+        const s = this.sqrtPrice;
+        const [decimalsIn, decimalsOut] = zeroForOne
+            ? [this.token0.decimals, this.token1.decimals]
+            : [this.token1.decimals, this.token0.decimals];
+
+        let amountIn: BigNumber;
+        let amountOut: BigNumber;
+        let newSqrtPrice: BigNumber;
+
+        if (exactInput) {
+            amountIn = specified;
+            const afterFee = amountIn.times(new BN(1).minus(feeFraction));
+            if (zeroForOne) {
+                newSqrtPrice = L.times(s).div(L.plus(afterFee.times(s)));
+                amountOut = L.times(s.minus(newSqrtPrice));
+            } else {
+                newSqrtPrice = s.plus(afterFee.div(L));
+                amountOut = L.times(new BN(1).div(s).minus(new BN(1).div(newSqrtPrice)));
+            }
+        } else {
+            amountOut = specified.abs();
+            let afterFee: BigNumber;
+            if (zeroForOne) {
+                if (amountOut.gte(this.reserve1)) throw new InsufficientLiquidityError(this);
+                newSqrtPrice = s.minus(amountOut.div(L));
+                afterFee = L.times(new BN(1).div(newSqrtPrice).minus(new BN(1).div(s)));
+            } else {
+                if (amountOut.gte(this.reserve0)) throw new InsufficientLiquidityError(this);
+                newSqrtPrice = new BN(1).div(new BN(1).div(s).minus(amountOut.div(L)));
+                afterFee = L.times(newSqrtPrice.minus(s));
+            }
+            amountIn = afterFee.div(new BN(1).minus(feeFraction));
+        }
+
+        // Inputs round up and outputs round down at each token's precision, as on chain
+        amountIn = amountIn.decimalPlaces(decimalsIn, BigNumber.ROUND_CEIL);
+        amountOut = amountOut.decimalPlaces(decimalsOut, BigNumber.ROUND_FLOOR);
+        if (!amountOut.isPositive()) throw new InsufficientLiquidityError(this);
+
+        return {
+            amount0: zeroForOne ? amountIn : amountOut.negated(),
+            amount1: zeroForOne ? amountOut.negated() : amountIn,
+            currentSqrtPrice: s,
+            newSqrtPrice,
+            feeAmount: amountIn.times(feeFraction)
+        };
+    }
+
+    apply(result: MockSwapResult): void {
+        this.sqrtPrice = result.newSqrtPrice;
+    }
+
+    /** Moves the price by a relative factor, e.g. 1.002 for +0.2%. */
+    drift(factor: number): void {
+        this.sqrtPrice = this.sqrtPrice.times(new BN(factor).sqrt());
+    }
+
+    /** Pool state as returned by GetPoolData. */
+    toPoolData(): Record<string, unknown> {
+        return {
+            token0: this.token0.classKey.replace(/\|/g, '$'),
+            token1: this.token1.classKey.replace(/\|/g, '$'),
+            token0ClassKey: this.token0.tokenClassKey,
+            token1ClassKey: this.token1.tokenClassKey,
+            fee: this.fee,
+            sqrtPrice: this.sqrtPrice.toFixed(),
+            liquidity: this.liquidity.toFixed(),
+            grossPoolLiquidity: this.liquidity.toFixed(),
+            bitmap: this.bitmap(),
+            tickSpacing: this.tickSpacing,
+            maxLiquidityPerTick: '1e38',
+            feeGrowthGlobal0: '0',
+            feeGrowthGlobal1: '0',
+            protocolFees: 0,
+            protocolFeesToken0: '0',
+            protocolFeesToken1: '0'
+        };
+    }
+
+    /**
+     * Everything the SDK needs to quote locally (GetCompositePool): the pool,
+     * the two initialised ticks of the full-range position and the reserves.
+     */
+    toCompositePool(): Record<string, unknown> {
+        const [lower, upper] = this.fullRangeTicks();
+        const poolHash = this.key;
+        const tick = (index: number, liquidityNet: BigNumber) => ({
+            poolHash,
+            tick: index,
+            initialised: true,
+            liquidityNet: liquidityNet.toFixed(),
+            liquidityGross: this.liquidity.toFixed(),
+            feeGrowthOutside0: '0',
+            feeGrowthOutside1: '0'
+        });
+        const balance = (token: GalaToken, quantity: BigNumber) => ({
+            owner: `$pool$${poolHash}`,
+            ...token.tokenClassKey,
+            quantity: quantity.decimalPlaces(token.decimals, BigNumber.ROUND_FLOOR).toFixed()
+        });
+
+        return {
+            pool: this.toPoolData(),
+            tickDataMap: {
+                [lower]: tick(lower, this.liquidity),
+                [upper]: tick(upper, this.liquidity.negated())
+            },
+            token0Balance: balance(this.token0, this.reserve0),
+            token1Balance: balance(this.token1, this.reserve1),
+            token0Decimals: this.token0.decimals,
+            token1Decimals: this.token1.decimals
+        };
+    }
+
+    private fullRangeTicks(): [number, number] {
+        const spacing = this.tickSpacing;
+        return [Math.ceil(MIN_TICK / spacing) * spacing, Math.floor(MAX_TICK / spacing) * spacing];
+    }
+
+    // Tick bitmap words keyed by word index, one bit per initialised tick/spacing
+    private bitmap(): Record<string, string> {
+        const bitmap: Record<string, string> = {};
+        for (const tick of this.fullRangeTicks()) {
+            const compressed = tick / this.tickSpacing;
+            const word = Math.floor(compressed / 256);
+            const bit = ((compressed % 256) + 256) % 256;
+            bitmap[word] = (BigInt(bitmap[word] || '0') | (1n << BigInt(bit))).toString();
+        }
+        return bitmap;
+    }
+}
+
+/** Pools are keyed with tokens in the SDK's canonical (sorted) order. */
+export function poolKey(tokenA: string, tokenB: string, fee: number): string {
+    const [token0, token1] = tokenA.localeCompare(tokenB) < 0 ? [tokenA, tokenB] : [tokenB, tokenA];
+    return `${token0}/${token1}@${fee}`;
+}
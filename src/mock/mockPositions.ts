@@ -0,0 +1,178 @@
+import BigNumber from 'bignumber.js';
+import { randomUUID } from 'crypto';
+import { exactAmountsForLiquidity, liquidityForAmounts, sqrtPriceToTick } from '../services/poolMath';
+import { MockPool } from './mockPool';
+
+export interface MockPosition {
+    positionId: string;
+    owner: string;
+    pool: MockPool;
+    tickLower: number;
+    tickUpper: number;
+    liquidity: BigNumber;
+    tokensOwed0: BigNumber;
+    tokensOwed1: BigNumber;
+    createdAt: number;
+}
+
+export interface MockPositionAmounts {
+    amount0: BigNumber;
+    amount1: BigNumber;
+}
+
+/**
+ * Liquidity positions opened through the mock bundler. They hold their tokens
+ * and earn a liquidity-weighted share of every swap fee while the pool price
+ * is inside their range, but they don't deepen the pool: swaps are still
+ * priced on the seeded full-range liquidity alone.
+ */
+export class MockPositionBook {
+    private positions: Map<string, MockPosition> = new Map();
+
+    get(owner: string, positionId: string): MockPosition | undefined {
+        const position = this.positions.get(positionId);
+        return position?.owner === owner ? position : undefined;
+    }
+
+    find(owner: string, pool: MockPool, tickLower: number, tickUpper: number): MockPosition | undefined {
+        return this.listFor(owner).find(position =>
+            position.pool === pool && position.tickLower === tickLower && position.tickUpper === tickUpper);
+    }
+
+    listFor(owner: string): MockPosition[] {
+        return Array.from(this.positions.values()).filter(position => position.owner === owner);
+    }
+
+    all(): MockPosition[] {
+        return Array.from(this.positions.values());
+    }
+
+    /**
+     * The liquidity the desired amounts fund at the pool's price, and what it
+     * takes of each: inputs round up at each token's precision, as on chain.
+     */
+    quoteAdd(pool: MockPool, tickLower: number, tickUpper: number, amount0Desired: BigNumber.Value, amount1Desired: BigNumber.Value): { liquidity: BigNumber } & MockPositionAmounts {
+        const liquidity = new BigNumber(liquidityForAmounts(pool.sqrtPrice.toNumber(), tickLower, tickUpper,
+            new BigNumber(amount0Desired).toNumber(), new BigNumber(amount1Desired).toNumber()));
+        const amounts = exactAmountsForLiquidity(liquidity, pool.sqrtPrice, tickLower, tickUpper);
+        return {
+            liquidity,
+            amount0: BigNumber.min(amounts.amount0.decimalPlaces(pool.token0.decimals, BigNumber.ROUND_CEIL), amount0Desired),
+            amount1: BigNumber.min(amounts.amount1.decimalPlaces(pool.token1.decimals, BigNumber.ROUND_CEIL), amount1Desired)
+        };
+    }
+
+    /** What removing some of a position's liquidity pays out; outputs round down. */
+    quoteRemove(position: MockPosition, liquidity: BigNumber): MockPositionAmounts {
+        const { pool } = position;
+        const amounts = exactAmountsForLiquidity(liquidity, pool.sqrtPrice, position.tickLower, position.tickUpper);
+        return {
+            amount0: amounts.amount0.decimalPlaces(pool.token0.decimals, BigNumber.ROUND_FLOOR),
+            amount1: amounts.amount1.decimalPlaces(pool.token1.decimals, BigNumber.ROUND_FLOOR)
+        };
+    }
+
+    /** Adds to an existing position, or opens one under a fresh id. */
+    add(owner: string, pool: MockPool, tickLower: number, tickUpper: number, liquidity: BigNumber, existing?: MockPosition): MockPosition {
+        if (existing) {
+            existing.liquidity = existing.liquidity.plus(liquidity);
+            return existing;
+        }
+        const position: MockPosition = {
+            positionId: randomUUID(),
+            owner,
+            pool,
+            tickLower,
+            tickUpper,
+            liquidity,
+            tokensOwed0: new BigNumber(0),
+            tokensOwed1: new BigNumber(0),
+            createdAt: Date.now()
+        };
+        this.positions.set(position.positionId, position);
+        return position;
+    }
+
+    /** Takes liquidity out; the tokens it held become the caller's, fees stay owed until collected. */
+    remove(position: MockPosition, liquidity: BigNumber): void {
+        position.liquidity = position.liquidity.minus(liquidity);
+        this.dropIfEmpty(position);
+    }
+
+    /** Pays out up to the requested amounts of what the position is owed. */
+    collect(position: MockPosition, amount0Requested: BigNumber.Value, amount1Requested: BigNumber.Value): MockPositionAmounts {
+        const amount0 = BigNumber.min(position.tokensOwed0, amount0Requested);
+        const amount1 = BigNumber.min(position.tokensOwed1, amount1Requested);
+        position.tokensOwed0 = position.tokensOwed0.minus(amount0);
+        position.tokensOwed1 = position.tokensOwed1.minus(amount1);
+        this.dropIfEmpty(position);
+        return { amount0, amount1 };
+    }
+
+    /**
+     * Shares a swap's fee (in its input token) among the positions in range,
+     * by liquidity, alongside the pool's own full-range liquidity.
+     */
+    accrueSwapFee(pool: MockPool, zeroForOne: boolean, feeAmount: BigNumber): void {
+        const tick = sqrtPriceToTick(pool.sqrtPrice.toNumber());
+        const inRange = this.all().filter(position =>
+            position.pool === pool && position.liquidity.gt(0) && position.tickLower <= tick && tick < position.tickUpper);
+        if (inRange.length === 0) return;
+
+        const totalLiquidity = inRange.reduce((total, position) => total.plus(position.liquidity), pool.liquidity);
+        const decimals = zeroForOne ? pool.token0.decimals : pool.token1.decimals;
+        for (const position of inRange) {
+            const share = feeAmount.times(position.liquidity).div(totalLiquidity).decimalPlaces(decimals, BigNumber.ROUND_FLOOR);
+            if (zeroForOne) {
+                position.tokensOwed0 = position.tokensOwed0.plus(share);
+            } else {
+                position.tokensOwed1 = position.tokensOwed1.plus(share);
+            }
+        }
+    }
+
+    /** A position as listed by GetUserPositions. */
+    toUserPosition(position: MockPosition): Record<string, unknown> {
+        const { pool } = position;
+        return {
+            poolHash: pool.key,
+            positionId: position.positionId,
+            token0ClassKey: pool.token0.tokenClassKey,
+            token1ClassKey: pool.token1.tokenClassKey,
+            token0Img: '',
+            token1Img: '',
+            token0Symbol: pool.token0.symbol,
+            token1Symbol: pool.token1.symbol,
+            fee: pool.fee,
+            liquidity: position.liquidity.toFixed(),
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            createdAt: new Date(position.createdAt).toISOString()
+        };
+    }
+
+    /** A position as read by GetPositions, fees already checkpointed into tokensOwed. */
+    toPositionData(position: MockPosition): Record<string, unknown> {
+        const { pool } = position;
+        return {
+            fee: pool.fee,
+            feeGrowthInside0Last: '0',
+            feeGrowthInside1Last: '0',
+            liquidity: position.liquidity.toFixed(),
+            poolHash: pool.key,
+            positionId: position.positionId,
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            token0ClassKey: pool.token0.tokenClassKey,
+            token1ClassKey: pool.token1.tokenClassKey,
+            tokensOwed0: position.tokensOwed0.toFixed(),
+            tokensOwed1: position.tokensOwed1.toFixed()
+        };
+    }
+
+    private dropIfEmpty(position: MockPosition): void {
+        if (position.liquidity.lte(0) && position.tokensOwed0.lte(0) && position.tokensOwed1.lte(0)) {
+            this.positions.delete(position.positionId);
+        }
+    }
+}
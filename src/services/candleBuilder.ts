@@ -0,0 +1,105 @@
+import { Config } from '../config';
+import { CANDLE_INTERVALS, CandleInterval } from './candleIntervals';
+
+export interface Candle {
+    openTime: number;
+    closeTime: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    samples: number; // 0 for a gap filled forward from the previous close
+}
+
+/**
+ * Aggregates price samples into OHLC candles on fixed, wall-clock aligned
+ * intervals. Minutes without a sample are filled with a flat candle at the
+ * previous close so every series stays evenly spaced.
+ */
+export class CandleBuilder {
+    private candles: Map<string, Map<CandleInterval, Candle[]>> = new Map();
+    private maxCandles: number;
+
+    constructor(maxCandles: number = Config.CANDLE_HISTORY) {
+        this.maxCandles = maxCandles;
+    }
+
+    addSample(symbol: string, price: number, timestamp: number = Date.now()): void {
+        if (!(price > 0)) return;
+
+        if (!this.candles.has(symbol)) {
+            this.candles.set(symbol, new Map());
+        }
+        const series = this.candles.get(symbol)!;
+
+        for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+            if (!series.has(interval)) series.set(interval, []);
+            this.addToSeries(series.get(interval)!, CANDLE_INTERVALS[interval], price, timestamp);
+        }
+    }
+
+    /** Oldest first; the last candle is still open. */
+    getCandles(symbol: string, interval: CandleInterval, limit?: number): Candle[] {
+        const candles = this.candles.get(symbol)?.get(interval) || [];
+        return limit ? candles.slice(-limit) : [...candles];
+    }
+
+    getCloses(symbol: string, interval: CandleInterval, limit?: number): number[] {
+        return this.getCandles(symbol, interval, limit).map(candle => candle.close);
+    }
+
+    getLatestPrice(symbol: string): number | undefined {
+        const candles = this.candles.get(symbol)?.get('1m');
+        return candles && candles.length > 0 ? candles[candles.length - 1].close : undefined;
+    }
+
+    getSymbols(): string[] {
+        return Array.from(this.candles.keys());
+    }
+
+    private addToSeries(candles: Candle[], intervalMs: number, price: number, timestamp: number): void {
+        const openTime = Math.floor(timestamp / intervalMs) * intervalMs;
+        const last = candles[candles.length - 1];
+
+        if (last && last.openTime === openTime) {
+            last.high = Math.max(last.high, price);
+            last.low = Math.min(last.low, price);
+            last.close = price;
+            last.samples++;
+            return;
+        }
+
+        // Late samples for an already closed candle are dropped rather than rewriting history
+        if (last && openTime < last.openTime) return;
+
+        if (last) {
+            const gaps = Math.min((openTime - last.openTime) / intervalMs - 1, this.maxCandles);
+            for (let i = gaps; i >= 1; i--) {
+                const gapOpen = openTime - i * intervalMs;
+                candles.push({
+                    openTime: gapOpen,
+                    closeTime: gapOpen + intervalMs,
+                    open: last.close,
+                    high: last.close,
+                    low: last.close,
+                    close: last.close,
+                    samples: 0
+                });
+            }
+        }
+
+        candles.push({
+            openTime,
+            closeTime: openTime + intervalMs,
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            samples: 1
+        });
+
+        if (candles.length > this.maxCandles) {
+            candles.splice(0, candles.length - this.maxCandles);
+        }
+    }
+}
@@ -0,0 +1,8 @@
+/** Candle intervals the bot builds, kept free of imports so Config can check against them. */
+export type CandleInterval = '1m' | '5m' | '1h';
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+    '1m': 60 * 1000,
+    '5m': 5 * 60 * 1000,
+    '1h': 60 * 60 * 1000
+};
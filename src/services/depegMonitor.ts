@@ -0,0 +1,206 @@
+import { EventEmitter } from 'events';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { GalaToken } from './galaDexService';
+import { MarketDataProvider } from './marketDataProvider';
+import { normalizeQuote } from './normalizedQuote';
+import { ReferencePriceFeed } from './referencePrices';
+import { TokenRegistry } from './tokenRegistry';
+
+export interface StablecoinStatus {
+    token: string;
+    referencePrice?: number; // USD, from the reference feed
+    poolPrice?: number; // USD implied by GalaDex pools against the other stablecoins
+    deviationPercent: number; // Signed, from the reference when there is one, otherwise from the pools
+    attributed: boolean; // A reference, this stable's or a pool counterpart's, pins the deviation on it
+    depegged: boolean; // Beyond the band and attributed
+    checkedAt: number;
+}
+
+export interface StablecoinPairStatus {
+    tokens: [string, string];
+    deviationPercent: number; // Pool rate from 1:1, signed as the first token against the second
+    offPeg: boolean;
+}
+
+interface PoolMeasurement {
+    price: number;
+    attributed: boolean;
+}
+
+/**
+ * Watches stablecoins for a lost peg, from two angles: the reference feed's
+ * price for each stable, and GalaDex pools between the stables themselves.
+ * A stable's own reference price decides its status when there is one. A
+ * pool rate only says the two sides disagree, so it counts against a stable
+ * only when the other side has a reference to value it at. Without one the
+ * pair itself is marked off peg, which blocks trading through that pool but
+ * not either stable: a GUSDT depeg seen in the GUSDT/GUSDC pool must not
+ * pause everything quoted in GUSDC.
+ * Emits 'depeg' when a stable leaves the band and 'recovered' when it returns.
+ */
+export class DepegMonitor extends EventEmitter {
+    private logger = new Logger('DepegMonitor');
+    private marketData: MarketDataProvider;
+    private tokenRegistry: TokenRegistry;
+    private referencePrices?: ReferencePriceFeed;
+    private statuses: Map<string, StablecoinStatus> = new Map();
+    private pairs: Map<string, StablecoinPairStatus> = new Map();
+    private checkInterval?: NodeJS.Timeout;
+
+    constructor(marketData: MarketDataProvider, tokenRegistry: TokenRegistry, referencePrices?: ReferencePriceFeed) {
+        super();
+        this.marketData = marketData;
+        this.tokenRegistry = tokenRegistry;
+        this.referencePrices = referencePrices;
+    }
+
+    startMonitoring(intervalMs: number = Config.DEPEG_CHECK_INTERVAL_MS): void {
+        this.stopMonitoring();
+        this.logger.info(`🪙 Watching ${Config.STABLECOINS.join(', ')} for a peg deviation beyond ${Config.DEPEG_BAND_PERCENT}%`);
+        this.checkInterval = setInterval(() => {
+            this.check().catch(error => this.logger.error('Depeg check failed:', error));
+        }, intervalMs);
+        this.check().catch(error => this.logger.error('Depeg check failed:', error));
+    }
+
+    stopMonitoring(): void {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = undefined;
+        }
+    }
+
+    async check(): Promise<StablecoinStatus[]> {
+        const stables = Config.STABLECOINS
+            .map(symbol => this.tokenRegistry.getToken(symbol))
+            .filter((token): token is GalaToken => token !== undefined);
+
+        const references = new Map<string, number>();
+        for (const stable of stables) {
+            const price = await this.referencePrices?.getPrice(stable.symbol);
+            if (price !== undefined) references.set(stable.symbol, price);
+        }
+
+        const results: StablecoinStatus[] = [];
+        for (const stable of stables) {
+            const referencePrice = references.get(stable.symbol);
+            const measured = await this.measurePoolPrice(stable, stables, references);
+
+            const price = referencePrice ?? measured?.price;
+            const deviationPercent = price !== undefined ? (price - 1) * 100 : 0;
+            const attributed = referencePrice !== undefined || (measured?.attributed ?? false);
+
+            const status: StablecoinStatus = {
+                token: stable.symbol,
+                referencePrice,
+                poolPrice: measured?.price,
+                deviationPercent,
+                attributed,
+                depegged: attributed && Math.abs(deviationPercent) > Config.DEPEG_BAND_PERCENT,
+                checkedAt: Date.now()
+            };
+            this.update(status);
+            results.push(status);
+        }
+        return results;
+    }
+
+    isDepegged(symbol: string): boolean {
+        return this.statuses.get(symbol)?.depegged ?? false;
+    }
+
+    /** Whether the pool between two stables trades beyond the band from 1:1. */
+    isPairOffPeg(symbolA: string, symbolB: string): boolean {
+        return this.pairs.get(pairKey(symbolA, symbolB))?.offPeg ?? false;
+    }
+
+    /**
+     * Best USD estimate for a stablecoin: the reference, then the pools when a
+     * reference backs them, then $1. An unbacked pool price could be the other
+     * side's move, so it isn't used.
+     */
+    getUsdPrice(symbol: string): number {
+        const status = this.statuses.get(symbol);
+        return status?.referencePrice ?? (status?.attributed ? status.poolPrice : undefined) ?? 1;
+    }
+
+    getStatuses(): StablecoinStatus[] {
+        return Array.from(this.statuses.values());
+    }
+
+    getPairStatuses(): StablecoinPairStatus[] {
+        return Array.from(this.pairs.values());
+    }
+
+    /**
+     * Median USD price of a stable implied by its pools with the other stables.
+     * Unit quotes are grossed up by the pool fee so a healthy pool reads 1:1.
+     * Counterparts with a reference price are used alone when there are any,
+     * and make the price attributable; otherwise every counterpart counts at $1.
+     */
+    private async measurePoolPrice(stable: GalaToken, stables: GalaToken[], references: Map<string, number>): Promise<PoolMeasurement | undefined> {
+        const implied: number[] = [];
+        const referenced: number[] = [];
+        for (const other of stables) {
+            if (other.classKey === stable.classKey) continue;
+            if (this.tokenRegistry.getPoolsForPair(stable.classKey, other.classKey).length === 0) continue;
+
+            try {
+                const amountIn = TokenAmount.fromDecimal(1, stable.decimals);
+                const quote = normalizeQuote(stable, other, amountIn, await this.marketData.quoteExactInput(stable.classKey, other.classKey, amountIn.toString()));
+                const midRate = quote.price / (1 - quote.feeTier / 1_000_000);
+                this.updatePair(stable.symbol, other.symbol, (midRate - 1) * 100);
+
+                const otherReference = references.get(other.symbol);
+                implied.push(midRate * (otherReference ?? 1));
+                if (otherReference !== undefined) referenced.push(midRate * otherReference);
+            } catch (error) {
+                this.logger.debug(`Could not quote ${stable.symbol}/${other.symbol}:`, (error as any).message);
+            }
+        }
+
+        if (referenced.length > 0) return { price: median(referenced), attributed: true };
+        if (implied.length > 0) return { price: median(implied), attributed: false };
+        return undefined;
+    }
+
+    private updatePair(symbolA: string, symbolB: string, deviationPercent: number): void {
+        const key = pairKey(symbolA, symbolB);
+        const previous = this.pairs.get(key);
+        const offPeg = Math.abs(deviationPercent) > Config.DEPEG_BAND_PERCENT;
+        this.pairs.set(key, { tokens: [symbolA, symbolB], deviationPercent, offPeg });
+
+        if (offPeg && !previous?.offPeg) {
+            this.logger.warn(`⚠️ ${symbolA}/${symbolB} pool is ${deviationPercent.toFixed(2)}% from 1:1, routes through it are blocked`);
+        } else if (!offPeg && previous?.offPeg) {
+            this.logger.info(`✅ ${symbolA}/${symbolB} pool back near 1:1`);
+        }
+    }
+
+    private update(status: StablecoinStatus): void {
+        const previous = this.statuses.get(status.token);
+        this.statuses.set(status.token, status);
+
+        const detail = `${status.deviationPercent.toFixed(2)}% from peg (reference ${status.referencePrice ?? 'n/a'}, pools ${status.poolPrice?.toFixed(4) ?? 'n/a'})`;
+        if (status.depegged && !previous?.depegged) {
+            this.logger.error(`🚨 ${status.token} depeg: ${detail}, trading against it is blocked`);
+            this.emit('depeg', { ...status });
+        } else if (!status.depegged && previous?.depegged) {
+            this.logger.info(`✅ ${status.token} back on peg: ${detail}`);
+            this.emit('recovered', { ...status });
+        }
+    }
+}
+
+// Both directions of a pair share one entry
+function pairKey(symbolA: string, symbolB: string): string {
+    return [symbolA, symbolB].sort().join('/');
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,175 @@
+import { FEE_TIER } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { GalaToken } from './galaDexService';
+import { MarketDataProvider } from './marketDataProvider';
+import { normalizeQuote } from './normalizedQuote';
+import { RouteFinder } from './routeFinder';
+import { TokenRegistry } from './tokenRegistry';
+
+export interface DepthPoint {
+    notionalUsd: number;
+    amountIn: number;
+    amountOut: number;
+    price: number; // Effective tokenOut per tokenIn at this size
+    priceImpact: number; // Percent
+}
+
+export interface DepthCurve {
+    tokenIn: GalaToken;
+    tokenOut: GalaToken;
+    feeTier: FEE_TIER;
+    tokenInUsdPrice: number;
+    points: DepthPoint[]; // Ascending by size
+    timestamp: number;
+}
+
+export interface DepthProfile {
+    token: string;
+    quoteToken: string;
+    curves: DepthCurve[];
+    timestamp: number;
+}
+
+export interface ImpactCapacity {
+    amountIn: number;
+    amountOut: number; // What amountIn buys, for sizing exact-output trades
+    notionalUsd: number;
+    exceedsLadder: boolean; // Even the largest probe stayed under the impact limit
+}
+
+/**
+ * Measures how much size a pool can absorb by quoting a ladder of USD-sized
+ * trades and recording the price impact at each rung. Curves are cached for a
+ * short while because risk checks ask for the same pools every scan.
+ */
+export class DepthProfiler {
+    private logger = new Logger('DepthProfiler');
+    private marketData: MarketDataProvider;
+    private tokenRegistry: TokenRegistry;
+    private routeFinder: RouteFinder;
+    private curves: Map<string, DepthCurve> = new Map();
+
+    constructor(marketData: MarketDataProvider, tokenRegistry: TokenRegistry, routeFinder: RouteFinder) {
+        this.marketData = marketData;
+        this.tokenRegistry = tokenRegistry;
+        this.routeFinder = routeFinder;
+    }
+
+    /**
+     * Depth of every pool between a token and the quote token (GUSDC by default),
+     * one curve per fee tier, selling the token.
+     */
+    async profileToken(token: GalaToken, quoteToken?: GalaToken): Promise<DepthProfile> {
+        const quote = quoteToken || this.tokenRegistry.getToken('GUSDC|Unit|none|none');
+        const curves: DepthCurve[] = [];
+
+        if (quote) {
+            for (const pool of this.tokenRegistry.getPoolsForPair(token.classKey, quote.classKey)) {
+                const curve = await this.profilePool(token, quote, pool.fee);
+                if (curve) curves.push(curve);
+            }
+        }
+
+        return {
+            token: token.symbol,
+            quoteToken: quote?.symbol || 'GUSDC',
+            curves,
+            timestamp: Date.now()
+        };
+    }
+
+    async profilePool(tokenIn: GalaToken, tokenOut: GalaToken, feeTier: FEE_TIER): Promise<DepthCurve | null> {
+        const key = `${tokenIn.classKey}>${tokenOut.classKey}@${feeTier}`;
+        const cached = this.curves.get(key);
+        if (cached && Date.now() - cached.timestamp < Config.DEPTH_PROFILE_TTL_MS) {
+            return cached;
+        }
+
+        const tokenInUsdPrice = await this.getUsdPrice(tokenIn);
+        if (!tokenInUsdPrice) {
+            this.logger.debug(`No USD price for ${tokenIn.symbol}, cannot size a depth ladder`);
+            return null;
+        }
+
+        const points: DepthPoint[] = [];
+        for (const notionalUsd of [...Config.DEPTH_LADDER_USD].sort((a, b) => a - b)) {
+            const amountIn = TokenAmount.fromDecimal(notionalUsd / tokenInUsdPrice, tokenIn.decimals);
+            if (!amountIn.isPositive()) continue;
+
+            try {
+                const quote = normalizeQuote(tokenIn, tokenOut, amountIn,
+                    await this.marketData.quoteExactInput(tokenIn.classKey, tokenOut.classKey, amountIn.toString(), feeTier));
+                points.push({
+                    notionalUsd,
+                    amountIn: amountIn.toNumber(),
+                    amountOut: quote.outAmount.toNumber(),
+                    price: quote.price,
+                    priceImpact: quote.priceImpact
+                });
+            } catch (error) {
+                // Larger rungs can exceed the pool's liquidity; the curve stops there
+                this.logger.debug(`Depth probe ${tokenIn.symbol} -> ${tokenOut.symbol} @ ${feeTier} stopped at $${notionalUsd}:`, (error as any).message);
+                break;
+            }
+        }
+
+        if (points.length === 0) return null;
+
+        const curve: DepthCurve = { tokenIn, tokenOut, feeTier, tokenInUsdPrice, points, timestamp: Date.now() };
+        this.curves.set(key, curve);
+        this.logger.debug(`📏 Depth ${tokenIn.symbol} -> ${tokenOut.symbol} @ ${feeTier}: ${points.map(p => `$${p.notionalUsd}=${p.priceImpact.toFixed(2)}%`).join(', ')}`);
+        return curve;
+    }
+
+    /**
+     * Largest trade that keeps price impact at or below maxImpact percent,
+     * interpolating linearly between ladder rungs (and from zero below the first).
+     */
+    maxSizeForImpact(curve: DepthCurve, maxImpact: number): ImpactCapacity {
+        let previous = { amountIn: 0, amountOut: 0, notionalUsd: 0, priceImpact: 0 };
+
+        for (const point of curve.points) {
+            if (point.priceImpact > maxImpact) {
+                const span = point.priceImpact - previous.priceImpact;
+                const fraction = span > 0 ? (maxImpact - previous.priceImpact) / span : 0;
+                return {
+                    amountIn: previous.amountIn + (point.amountIn - previous.amountIn) * fraction,
+                    amountOut: previous.amountOut + (point.amountOut - previous.amountOut) * fraction,
+                    notionalUsd: previous.notionalUsd + (point.notionalUsd - previous.notionalUsd) * fraction,
+                    exceedsLadder: false
+                };
+            }
+            previous = point;
+        }
+
+        return { amountIn: previous.amountIn, amountOut: previous.amountOut, notionalUsd: previous.notionalUsd, exceedsLadder: true };
+    }
+
+    /** Expected price impact for a trade of the given USD size, interpolated on the curve. */
+    impactAtSize(curve: DepthCurve, notionalUsd: number): number {
+        let previous = { notionalUsd: 0, priceImpact: 0 };
+
+        for (const point of curve.points) {
+            if (point.notionalUsd >= notionalUsd) {
+                const span = point.notionalUsd - previous.notionalUsd;
+                const fraction = span > 0 ? (notionalUsd - previous.notionalUsd) / span : 0;
+                return previous.priceImpact + (point.priceImpact - previous.priceImpact) * fraction;
+            }
+            previous = point;
+        }
+
+        // Beyond the ladder, extrapolate from the last rung's impact per dollar
+        return previous.notionalUsd > 0 ? previous.priceImpact * (notionalUsd / previous.notionalUsd) : 0;
+    }
+
+    private async getUsdPrice(token: GalaToken): Promise<number | null> {
+        const base = this.tokenRegistry.getToken('GUSDC|Unit|none|none');
+        if (!base) return null;
+        if (token.classKey === base.classKey) return 1;
+
+        const route = await this.routeFinder.findBestRoute(token, base, 1);
+        return route ? route.amountOut : null;
+    }
+}
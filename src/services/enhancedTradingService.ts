@@ -1,10 +1,16 @@
 import { Logger } from '../utils/logger';
-import { GalaDexService } from './galaDexService';
+import { GalaDexService, GalaSwapRequest, GalaToken, NetworkFee } from './galaDexService';
 import { TradingStrategy, TradingSignal } from '../strategies/tradingStrategy';
 import { Config } from '../config';
 import { PerformanceTracker, TradeRecord } from './performanceTracker';
 import { VolumeTracker } from './volumeTracker';
 import { ProfileManager } from './profileManager';
+import { TokenAmount } from '../utils/tokenAmount';
+import { gatewayResilience } from './resilience';
+import { TrackedTransaction, isFinalState, transactionTracker } from './transactionTracker';
+import { SwapFill } from './swapFill';
+import { LiquidityService } from './liquidityService';
+import { LiquidityRebalancer } from './liquidityRebalancer';
 
 export interface TradeExecution {
     id: string;
@@ -15,8 +21,11 @@ export interface TradeExecution {
     confidence: number;
     reason: string;
     timestamp: number;
-    status: 'PENDING' | 'FILLED' | 'FAILED';
+    status: 'PENDING' | 'SUBMITTED' | 'FILLED' | 'FAILED'; // SUBMITTED: on chain, awaiting confirmation
     txHash?: string;
+    fee?: number; // Pool fee paid, in GUSDC; set from the confirmed fill
+    networkFeeUsd?: number; // GalaChain transaction fee, priced when the swap was made
+    networkFeeEstimated?: boolean; // NETWORK_FEE_GALA rather than what the chain reported charging
 }
 
 export class EnhancedTradingService {
@@ -30,8 +39,11 @@ export class EnhancedTradingService {
     private performanceTracker: PerformanceTracker;
     private volumeTracker: VolumeTracker;
     private profileManager: ProfileManager;
+    private positions: Map<string, { quantity: number; cost: number }> = new Map(); // Average-cost book per token, cost in GUSDC
+    private liquidityService?: LiquidityService;
+    private liquidityRebalancer?: LiquidityRebalancer;
 
-    constructor(galaDexService: GalaDexService) {
+    constructor(galaDexService: GalaDexService, liquidityService?: LiquidityService) {
         this.galaDexService = galaDexService;
         this.profileManager = new ProfileManager();
         
@@ -41,6 +53,13 @@ export class EnhancedTradingService {
         
         this.performanceTracker = new PerformanceTracker();
         this.volumeTracker = new VolumeTracker();
+
+        if (liquidityService) {
+            this.liquidityService = liquidityService;
+            this.liquidityRebalancer = new LiquidityRebalancer(galaDexService, liquidityService, this.performanceTracker);
+        }
+
+        transactionTracker.on('change', (tx: TrackedTransaction) => this.handleTransactionUpdate(tx));
     }
 
     async startTrading(): Promise<void> {
@@ -61,6 +80,10 @@ export class EnhancedTradingService {
             }
         }, Config.SCAN_INTERVAL_MS);
 
+        if (Config.LP_REBALANCE_ENABLED) {
+            this.liquidityRebalancer?.start();
+        }
+
         // Initial trading cycle
         await this.executeTradingCycle();
     }
@@ -73,6 +96,7 @@ export class EnhancedTradingService {
             clearInterval(this.tradingInterval);
             this.tradingInterval = undefined;
         }
+        this.liquidityRebalancer?.stop();
     }
 
     private async executeTradingCycle(): Promise<void> {
@@ -80,6 +104,18 @@ export class EnhancedTradingService {
 
         this.logger.info('🔄 Executing trading cycle...');
 
+        if (gatewayResilience.isDegraded()) {
+            this.logger.warn(`⏸️ Trading cycle paused, gateway degraded: ${gatewayResilience.getOpenEndpoints().join(', ')}`);
+            return;
+        }
+
+        // Every trade here is against the base currency, so a depegged base stops them all
+        const baseToken = this.galaDexService.getBaseToken();
+        if (baseToken && this.galaDexService.depegMonitor.isDepegged(baseToken.symbol)) {
+            this.logger.warn(`⏸️ Trading cycle paused, ${baseToken.symbol} is off its peg`);
+            return;
+        }
+
         try {
             // Analyze market conditions
             const signals = await this.tradingStrategy.analyzeMarket();
@@ -119,8 +155,20 @@ export class EnhancedTradingService {
                 return;
             }
 
-            // Calculate position size
-            const positionSize = this.tradingStrategy.calculatePositionSize(signal, currentBalance);
+            // Calculate position size, capped by what the GUSDC pool can absorb in the direction the swap goes
+            let positionSize = signal.targetOutput ?? this.tradingStrategy.calculatePositionSize(signal, currentBalance);
+            const baseToken = this.galaDexService.getBaseToken();
+            const request = baseToken ? this.planSwap(tokenInfo, baseToken, signal, positionSize) : null;
+            const curve = request ? await this.galaDexService.depthProfiler.profilePool(request.tokenIn, request.tokenOut, request.fee) : null;
+            if (request && curve) {
+                // Exact-output sizes are in the token received, so compare against what the capacity buys
+                const capacity = this.galaDexService.depthProfiler.maxSizeForImpact(curve, Config.MAX_PRICE_IMPACT);
+                const limit = request.mode === 'exactOut' ? capacity.amountOut : capacity.amountIn;
+                if (!capacity.exceedsLadder && limit < positionSize) {
+                    this.logger.debug(`Position for ${token} capped by liquidity: ${positionSize} -> ${limit}`);
+                    positionSize = limit;
+                }
+            }
             
             if (positionSize < 10) { // Minimum trade size
                 this.logger.debug(`Position size too small for ${token}: ${positionSize}`);
@@ -158,15 +206,21 @@ export class EnhancedTradingService {
                 // Simulate trade execution
                 trade.status = 'FILLED';
                 trade.price = await this.getCurrentPrice(token);
+                trade.networkFeeUsd = (await this.galaDexService.estimateNetworkFee(1)).usd;
+                trade.networkFeeEstimated = true;
                 this.logger.info(`🧪 DRY RUN: ${signal.action} ${amount} ${token} at ${trade.price}`);
+                this.recordTradeForTracking(trade);
             } else if (Config.ENABLE_TRADING) {
                 // Execute real trade
                 const result = await this.executeRealTrade(token, signal, amount);
                 if (result) {
-                    trade.status = 'FILLED';
+                    // The transaction tracker settles the trade; the loop moves on
+                    trade.status = 'SUBMITTED';
                     trade.price = result.price;
                     trade.txHash = result.txHash;
-                    this.logger.info(`✅ Trade executed: ${trade.txHash}`);
+                    trade.networkFeeUsd = result.networkFee?.usd;
+                    trade.networkFeeEstimated = result.networkFee?.estimated;
+                    this.logger.info(`📤 Trade submitted: ${trade.txHash}`);
                 } else {
                     trade.status = 'FAILED';
                     this.logger.warn(`❌ Trade failed for ${token}`);
@@ -181,45 +235,84 @@ export class EnhancedTradingService {
             trade.status = 'FAILED';
         }
 
+        if (trade.status === 'SUBMITTED') {
+            // The confirmation can beat the submit call back
+            const tracked = transactionTracker.get(trade.txHash!);
+            if (tracked) this.handleTransactionUpdate(tracked);
+            return;
+        }
+
         // Move to history
         this.tradeHistory.push(trade);
         this.activeTrades.delete(tradeId);
     }
 
-    private async executeRealTrade(token: string, signal: TradingSignal, amount: number): Promise<{ price: number; txHash: string } | null> {
+    private handleTransactionUpdate(tx: TrackedTransaction): void {
+        // Expired swaps stay open: a late answer from the chain can still settle them
+        if (!isFinalState(tx.state)) return;
+        const trade = Array.from(this.activeTrades.values()).find(t => t.txHash === tx.txId && t.status === 'SUBMITTED');
+        if (!trade) return;
+
+        if (tx.state === 'confirmed') {
+            trade.status = 'FILLED';
+            if (tx.fill) {
+                this.applyFill(trade, tx.fill);
+            } else {
+                this.logger.warn(`No fill reported for ${tx.txId}, recording ${trade.token} at the quoted price`);
+            }
+            const charged = this.galaDexService.reportedNetworkFee([tx.data]);
+            if (charged) {
+                trade.networkFeeUsd = charged.usd;
+                trade.networkFeeEstimated = false;
+            }
+            this.logger.info(`✅ Trade confirmed: ${trade.action} ${trade.amount} ${trade.token} at ${trade.price} (${tx.txId})`);
+            this.recordTradeForTracking(trade);
+        } else {
+            trade.status = 'FAILED';
+            this.logger.warn(`❌ Trade failed on chain: ${trade.action} ${trade.amount} ${trade.token} - ${tx.error}`);
+        }
+
+        this.tradeHistory.push(trade);
+        this.activeTrades.delete(trade.id);
+    }
+
+    /**
+     * Replaces the quoted amount and price with what the chain executed. Every
+     * trade here is against GUSDC, so price and fee end up in GUSDC per token.
+     * The fill's direction decides which side is the token, not the action.
+     */
+    private applyFill(trade: TradeExecution, fill: SwapFill): void {
+        if (fill.tokenOut.symbol === trade.token) {
+            // Paid GUSDC (tokenIn) for the token; the fee is charged in GUSDC
+            trade.amount = fill.amountOut.toNumber();
+            trade.price = fill.amountOut.isPositive() ? fill.amountIn.ratio(fill.amountOut).toNumber() : 0;
+            trade.fee = fill.feeAmount.toNumber();
+        } else {
+            // Sold the token (tokenIn) for GUSDC; the fee is charged in the token
+            trade.amount = fill.amountIn.toNumber();
+            trade.price = fill.price;
+            trade.fee = fill.feeAmount.toNumber() * fill.price;
+        }
+    }
+
+    private async executeRealTrade(token: string, signal: TradingSignal, amount: number): Promise<{ price: number; txHash: string; networkFee?: NetworkFee } | null> {
         try {
             const tokenInfo = this.galaDexService.getSupportedTokens().find(t => t.symbol === token);
             if (!tokenInfo) return null;
 
-            // Get quote
-            const quote = await this.galaDexService.gswap.quoting.quoteExactInput(
-                tokenInfo.classKey as any,
-                'GUSDC|Unit|none|none',
-                amount.toString(),
-                500
-            );
-
-            const expectedOutput = parseFloat((quote as any).outTokenAmount || '0');
-            const minOutput = (expectedOutput * 0.99).toFixed(6);
-
-            // Execute swap
-            const swapResult = await this.galaDexService.gswap.swaps.swap(
-                tokenInfo.classKey as any,
-                'GUSDC|Unit|none|none',
-                500,
-                {
-                    exactIn: amount.toString(),
-                    amountOutMinimum: minOutput,
-                },
-                Config.WALLET_ADDRESS
-            );
-
-            // Wait for confirmation
-            const completed = await swapResult.wait();
+            const baseToken = this.galaDexService.getBaseToken();
+            if (!baseToken) return null;
 
+            const request = this.planSwap(tokenInfo, baseToken, signal, amount);
+            const result = await this.galaDexService.swap(request, { awaitConfirmation: false });
+            if (!result) return null;
+
+            // Prices are GUSDC per token, and a BUY's quote is tokens per GUSDC
+            const buying = request.tokenOut.classKey === tokenInfo.classKey;
             return {
-                price: expectedOutput / amount,
-                txHash: completed.transactionHash
+                price: buying ? (result.price ? 1 / result.price : 0) : result.price || 0,
+                txHash: result.transactionHash,
+                networkFee: result.networkFee
             };
 
         } catch (error) {
@@ -228,29 +321,41 @@ export class EnhancedTradingService {
         }
     }
 
+    /**
+     * The swap a signal turns into against the base currency. A BUY spends
+     * GUSDC on exactly amount tokens, and a SELL with a target output receives
+     * exactly that much GUSDC, each paying at most the quote plus slippage.
+     * Any other SELL sells amount of the token.
+     */
+    private planSwap(tokenInfo: GalaToken, baseToken: GalaToken, signal: TradingSignal, amount: number): GalaSwapRequest {
+        if (signal.action === 'BUY') {
+            return { mode: 'exactOut', tokenIn: baseToken, tokenOut: tokenInfo, fee: 500, amountOut: TokenAmount.fromDecimal(amount, tokenInfo.decimals) };
+        }
+        if (signal.targetOutput && signal.action === 'SELL') {
+            return { mode: 'exactOut', tokenIn: tokenInfo, tokenOut: baseToken, fee: 500, amountOut: TokenAmount.fromDecimal(amount, baseToken.decimals) };
+        }
+        return { mode: 'exactIn', tokenIn: tokenInfo, tokenOut: baseToken, fee: 500, amountIn: TokenAmount.fromDecimal(amount, tokenInfo.decimals) };
+    }
+
     private async getCurrentPrice(token: string): Promise<number> {
         try {
             const tokenInfo = this.galaDexService.getSupportedTokens().find(t => t.symbol === token);
-            if (!tokenInfo) return 0;
+            const baseToken = this.galaDexService.getBaseToken();
+            if (!tokenInfo || !baseToken) return 0;
 
-            const quote = await this.galaDexService.gswap.quoting.quoteExactInput(
-                tokenInfo.classKey as any,
-                'GUSDC|Unit|none|none',
-                '1',
-                500
-            );
-
-            return parseFloat((quote as any).outTokenAmount || '0');
+            const quote = await this.galaDexService.getQuote(tokenInfo, baseToken, 1, 500);
+            return quote.price;
         } catch (error) {
             return 0;
         }
     }
 
     private async updateActiveTrades(): Promise<void> {
-        // In a real implementation, you'd check the status of pending trades
-        // For now, we'll just log the active trades
-        if (this.activeTrades.size > 0) {
-            this.logger.info(`📊 Active trades: ${this.activeTrades.size}`);
+        // Settlement happens in handleTransactionUpdate; this only reports what is still in flight
+        const submitted = Array.from(this.activeTrades.values()).filter(t => t.status === 'SUBMITTED');
+        if (submitted.length > 0) {
+            const oldestSeconds = (Date.now() - Math.min(...submitted.map(t => t.timestamp))) / 1000;
+            this.logger.info(`📊 Active trades: ${submitted.length} awaiting confirmation (oldest ${oldestSeconds.toFixed(0)}s)`);
         }
     }
 
@@ -301,6 +406,8 @@ export class EnhancedTradingService {
 
     private recordTradeForTracking(trade: TradeExecution): void {
         // Record for performance tracking
+        const profit = trade.status === 'FILLED' ? this.calculateTradeProfit(trade) : 0;
+        const networkFeeUsd = trade.networkFeeUsd ?? 0;
         const tradeRecord: TradeRecord = {
             id: trade.id,
             symbol: trade.token,
@@ -308,22 +415,40 @@ export class EnhancedTradingService {
             amount: trade.amount,
             price: trade.price,
             timestamp: trade.timestamp,
-            profit: trade.status === 'FILLED' ? this.calculateTradeProfit(trade) : 0,
-            isProfitable: trade.status === 'FILLED' && this.calculateTradeProfit(trade) > 0
+            profit,
+            isProfitable: profit !== undefined && profit - networkFeeUsd > 0,
+            networkFeeUsd
         };
 
         this.performanceTracker.recordTrade(tradeRecord);
         this.volumeTracker.recordTrade(trade.token, trade.amount, trade.price);
     }
 
-    private calculateTradeProfit(trade: TradeExecution): number {
-        // Simple profit calculation - in real implementation, this would be more complex
-        // For now, we'll use a mock calculation based on confidence and amount
+    /**
+     * Realised P&L on an average-cost basis. A buy adds to the position, fee
+     * included in its cost, and realises nothing. A sell realises proceeds less
+     * fee against the average cost of what it sold; undefined when the bot
+     * never bought the token and so has no cost basis for it.
+     */
+    private calculateTradeProfit(trade: TradeExecution): number | undefined {
+        const fee = trade.fee ?? 0;
+        const position = this.positions.get(trade.token) ?? { quantity: 0, cost: 0 };
+
         if (trade.action === 'BUY') {
-            return trade.amount * trade.price * 0.02; // Assume 2% profit for buys
-        } else {
-            return trade.amount * trade.price * 0.01; // Assume 1% profit for sells
+            position.quantity += trade.amount;
+            position.cost += trade.amount * trade.price + fee;
+            this.positions.set(trade.token, position);
+            return undefined;
         }
+
+        if (position.quantity <= 0) return undefined;
+
+        const sold = Math.min(trade.amount, position.quantity);
+        const costOfSold = position.cost * (sold / position.quantity);
+        position.quantity -= sold;
+        position.cost -= costOfSold;
+        this.positions.set(trade.token, position);
+        return sold * trade.price - fee * (sold / trade.amount) - costOfSold;
     }
 
     getTradingStatus(): any {
@@ -334,7 +459,15 @@ export class EnhancedTradingService {
             performance,
             volume,
             performanceMetrics: this.performanceTracker.getMetrics(),
-            volumeMetrics: this.volumeTracker.getMetrics()
+            volumeMetrics: this.volumeTracker.getMetrics(),
+            resilience: gatewayResilience.getHealth(),
+            transactions: transactionTracker.getStats(),
+            swapQueue: this.galaDexService.getSwapQueueStats(),
+            referencePrices: this.galaDexService.getReferencePriceStats(),
+            stablecoins: this.galaDexService.getStablecoinStatuses(),
+            stablecoinPairs: this.galaDexService.getStablecoinPairStatuses(),
+            liquidity: this.liquidityService?.getStats(),
+            rebalancer: this.liquidityRebalancer?.getStats()
         };
     }
 
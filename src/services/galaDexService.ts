@@ -1,10 +1,31 @@
-import { GSwap, PrivateKeySigner, GalaChainTokenClassKey, FEE_TIER } from '@gala-chain/gswap-sdk';
+import { GSwap, GalaChainTokenClassKey, FEE_TIER, PendingTransaction, Swaps } from '@gala-chain/gswap-sdk';
 import { Config } from '../config';
 import { Logger } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { TokenAmount } from '../utils/tokenAmount';
+import { RequestUsage } from '../utils/rateLimiter';
+import { MarketDataProvider, createMarketDataProvider, gatewayRateLimiter } from './marketDataProvider';
+import { TokenRegistry } from './tokenRegistry';
+import { RouteFinder, SwapRoute } from './routeFinder';
+import { QuoteCacheStats, sharedQuoteCache } from './quoteCache';
+import { NormalizedQuote, SwapMode, normalizeExactOutputQuote, normalizeQuote } from './normalizedQuote';
+import { DepthProfile, DepthProfiler } from './depthProfiler';
+import { Candle, CandleBuilder } from './candleBuilder';
+import { CandleInterval } from './candleIntervals';
+import { NetworkProfile, connectEventSocket, createGSwap, getNetworkProfile } from './networkProfile';
+import { ResilienceHealth, classifyError, gatewayResilience } from './resilience';
+import { TransactionState, TransactionTrackerStats, transactionTracker } from './transactionTracker';
+import { SwapFill, parseNetworkFeeGala, parseSwapFill } from './swapFill';
+import { PriceValidator, PriceValidatorStats } from './priceValidator';
+import { ReferenceDivergence, ReferencePriceFeed, ReferencePriceStats, createReferencePriceFeed } from './referencePrices';
+import { DepegMonitor, StablecoinPairStatus, StablecoinStatus } from './depegMonitor';
+import { PoolStateReader } from './poolStateReader';
+import { QueuedSpend, SwapQueueStats, swapQueueFor } from './swapQueue';
 
 export interface GalaToken {
     symbol: string;
     classKey: string;
+    tokenClassKey: GalaChainTokenClassKey;
     decimals: number;
     name: string;
 }
@@ -15,9 +36,13 @@ export interface GalaPriceData {
     timestamp: number;
     source: 'galadex';
     feeTier: FEE_TIER;
+    route?: string;
 }
 
+export type GalaArbitrageKind = 'fee-tier' | 'triangular';
+
 export interface GalaArbitrageOpportunity {
+    kind: GalaArbitrageKind;
     tokenIn: GalaToken;
     tokenOut: GalaToken;
     buyPrice: number;
@@ -27,6 +52,28 @@ export interface GalaArbitrageOpportunity {
     volume: number;
     feeTier: FEE_TIER;
     timestamp: number;
+    route?: SwapRoute; // Legs to execute; a triangular opportunity starts and ends at tokenIn
+    networkFeeUsd?: number; // Estimated GalaChain fees for every leg, already taken off profit
+}
+
+export interface GalaScanMetrics {
+    startedAt: number;
+    durationMs: number;
+    priceFetchMs: number;
+    pairScanMs: number;
+    triangularScanMs: number;
+    pairsChecked: number;
+    opportunities: number;
+    gatewayRequests: number;
+    throttledMs: number; // Time callers spent waiting on the gateway rate limit
+}
+
+/** GalaChain's own transaction fees, paid in GALA on top of any pool fee. */
+export interface NetworkFee {
+    transactions: number;
+    gala: number;
+    usd: number; // At the last GALA price seen; 0 when GALA couldn't be priced
+    estimated: boolean; // NETWORK_FEE_GALA per transaction, until the completed transactions report what they were charged
 }
 
 export interface GalaSwapResult {
@@ -34,58 +81,82 @@ export interface GalaSwapResult {
     amountIn: string;
     amountOut: string;
     priceImpact: number;
-    fee: number;
+    fee: number; // Pool fee tier in percent, summed over a route's hops
+    networkFee?: NetworkFee;
     timestamp: number;
+    route?: string;
+    mode?: SwapMode;
+    price?: number; // Quoted tokenOut per tokenIn, before slippage
+    status?: TransactionState; // 'submitted' when the caller chose not to wait; transactionHash is then the bundler's txId
+    fill?: SwapFill; // Actual amounts once confirmed; amountIn/amountOut are the submitted bounds until then
+    hopFills?: SwapFill[]; // A route's fills, one per hop in order, when the chain reported every one
+}
+
+export interface GalaSwapOptions {
+    awaitConfirmation?: boolean; // Default true; false returns once the bundler accepts the swap
 }
 
+/**
+ * A single-pool swap. exactIn spends a fixed input and guards the output with
+ * amountOutMinimum; exactOut buys a fixed output and guards the input with
+ * amountInMaximum.
+ */
+export type GalaSwapRequest =
+    | { mode: 'exactIn'; tokenIn: GalaToken; tokenOut: GalaToken; fee: FEE_TIER; amountIn: TokenAmount }
+    | { mode: 'exactOut'; tokenIn: GalaToken; tokenOut: GalaToken; fee: FEE_TIER; amountOut: TokenAmount };
+
+type SwapAmount = Parameters<Swaps['swap']>[3];
+
 export class GalaDexService {
     private logger = new Logger('GalaDexService');
     public gswap: GSwap;
+    public network: NetworkProfile;
+    public marketData: MarketDataProvider;
+    public tokenRegistry: TokenRegistry;
+    public routeFinder: RouteFinder;
+    public depthProfiler: DepthProfiler;
+    public poolState: PoolStateReader;
+    public candles: CandleBuilder = new CandleBuilder();
+    public priceValidator: PriceValidator = new PriceValidator();
+    public referencePrices?: ReferencePriceFeed; // Set when REFERENCE_PRICE_SOURCE is configured
+    public depegMonitor: DepegMonitor;
     private supportedTokens: GalaToken[] = [];
-    private priceData: Map<string, GalaPriceData[]> = new Map();
+    private lastScanMetrics?: GalaScanMetrics;
+    private lastGalaUsdPrice?: number; // From the latest scan, or a quote when no scan has priced GALA yet
 
     constructor() {
-        // Initialize GSwap SDK with signer for trading
-        this.gswap = new GSwap({
-            signer: new PrivateKeySigner(Config.PRIVATE_KEY),
-            walletAddress: Config.WALLET_ADDRESS,
-            gatewayBaseUrl: 'https://gateway-mainnet.galachain.com',
-            dexContractBasePath: '/api/asset/dexv3-contract',
-            tokenContractBasePath: '/api/asset/token-contract',
-            bundlerBaseUrl: 'https://bundle-backend-prod1.defi.gala.com',
-            bundlingAPIBasePath: '/bundle',
-            dexBackendBaseUrl: 'https://dex-backend-prod1.defi.gala.com',
-            transactionWaitTimeoutMs: 300000, // 5 minutes
-        });
+        // Initialize GSwap SDK with signer for trading, on the configured network
+        this.network = getNetworkProfile();
+        this.gswap = createGSwap({ profile: this.network });
+        this.marketData = createMarketDataProvider(this.gswap);
+        this.tokenRegistry = new TokenRegistry(this.gswap.dexBackendBaseUrl);
+        this.routeFinder = new RouteFinder(this.marketData, this.tokenRegistry);
+        this.depthProfiler = new DepthProfiler(this.marketData, this.tokenRegistry, this.routeFinder);
+        this.poolState = new PoolStateReader(this.gswap);
+        this.referencePrices = createReferencePriceFeed();
+        this.depegMonitor = new DepegMonitor(this.marketData, this.tokenRegistry, this.referencePrices);
     }
 
     async initialize(): Promise<void> {
-        this.logger.info('🔧 Initializing GalaDex service...');
+        this.logger.info(`🔧 Initializing GalaDex service on ${this.network.name} (${this.network.gatewayBaseUrl})...`);
         await this.loadSupportedTokens();
+        this.startTokenRefresh();
         this.logger.info(`📊 Loaded ${this.supportedTokens.length} supported tokens`);
+
+        // Submitted swaps are confirmed over the bundler's event socket
+        if (Config.ENABLE_TRADING && !Config.DRY_RUN) {
+            try {
+                transactionTracker.attach(await connectEventSocket(this.network));
+            } catch (error) {
+                this.logger.warn(`Event socket unavailable at ${this.network.bundlerBaseUrl}, swaps cannot be confirmed:`, (error as any).message);
+            }
+        }
     }
 
     private async loadSupportedTokens(): Promise<void> {
         try {
-            // Start with known working tokens
-            this.supportedTokens = [
-                {
-                    symbol: 'GALA',
-                    classKey: 'GALA|Unit|none|none',
-                    decimals: 8,
-                    name: 'Gala'
-                },
-                {
-                    symbol: 'GUSDC',
-                    classKey: 'GUSDC|Unit|none|none',
-                    decimals: 6,
-                    name: 'Gala USD Coin'
-                }
-            ];
-
-            // Try to discover more tokens by testing common pairs
-            await this.discoverAvailableTokens();
-            
+            await this.tokenRegistry.load();
+            this.supportedTokens = this.tokenRegistry.getTokens();
             this.logger.info(`📊 Discovered ${this.supportedTokens.length} available tokens`);
         } catch (error) {
             this.logger.error('Failed to load supported tokens:', error);
@@ -93,97 +164,93 @@ export class GalaDexService {
         }
     }
 
-    private async discoverAvailableTokens(): Promise<void> {
-        const potentialTokens = [
-            { symbol: 'GUSDT', classKey: 'GUSDT|Unit|none|none', decimals: 6, name: 'Gala Tether USD' },
-            { symbol: 'GETH', classKey: 'GETH|Unit|none|none', decimals: 18, name: 'Gala Ethereum' },
-            { symbol: 'GWBTC', classKey: 'GWBTC|Unit|none|none', decimals: 8, name: 'Gala Wrapped Bitcoin' },
-            { symbol: 'GBNB', classKey: 'GBNB|Unit|none|none', decimals: 18, name: 'Gala BNB' },
-            { symbol: 'GADA', classKey: 'GADA|Unit|none|none', decimals: 6, name: 'Gala Cardano' },
-            { symbol: 'GSOL', classKey: 'GSOL|Unit|none|none', decimals: 9, name: 'Gala Solana' },
-            { symbol: 'GAVAX', classKey: 'GAVAX|Unit|none|none', decimals: 18, name: 'Gala Avalanche' },
-            { symbol: 'GMATIC', classKey: 'GMATIC|Unit|none|none', decimals: 18, name: 'Gala Polygon' },
-            { symbol: 'GDOT', classKey: 'GDOT|Unit|none|none', decimals: 10, name: 'Gala Polkadot' },
-            { symbol: 'GLINK', classKey: 'GLINK|Unit|none|none', decimals: 18, name: 'Gala Chainlink' }
-        ];
-
-        for (const token of potentialTokens) {
-            try {
-                // Test if token can be quoted against GUSDC (most liquid pair)
-                await this.gswap.quoting.quoteExactInput(
-                    token.classKey as any,
-                    'GUSDC|Unit|none|none',
-                    '1',
-                    500
-                );
-                
-                // If successful, add to supported tokens
-                this.supportedTokens.push(token);
-                this.logger.info(`✅ Discovered token: ${token.symbol}`);
-            } catch (error) {
-                // Token not available or pool doesn't exist
-                this.logger.debug(`❌ Token not available: ${token.symbol}`);
+    private startTokenRefresh(): void {
+        this.tokenRegistry.startAutoRefresh(Config.TOKEN_REFRESH_INTERVAL_MS, () => {
+            const previous = new Set(this.supportedTokens.map(t => t.classKey));
+            this.supportedTokens = this.tokenRegistry.getTokens();
+
+            for (const token of this.supportedTokens) {
+                if (!previous.has(token.classKey)) {
+                    this.logger.info(`✅ New token listed: ${token.symbol}`);
+                }
             }
-        }
+        });
+    }
+
+    stopTokenRefresh(): void {
+        this.tokenRegistry.stopAutoRefresh();
+    }
+
+    getQuoteCacheStats(): QuoteCacheStats {
+        return sharedQuoteCache.getStats();
+    }
+
+    getResilienceHealth(): ResilienceHealth {
+        return gatewayResilience.getHealth();
+    }
+
+    getTransactionStats(): TransactionTrackerStats {
+        return transactionTracker.getStats();
+    }
+
+    getSwapQueueStats(): SwapQueueStats {
+        return swapQueueFor(Config.WALLET_ADDRESS).getStats();
     }
 
     async fetchPrices(): Promise<GalaPriceData[]> {
         try {
-            const prices: GalaPriceData[] = [];
-            
-            for (const token of this.supportedTokens) {
+            const baseToken = this.getBaseToken();
+            // Quotes are in GUSDC; its own USD value comes from the depeg monitor rather than an assumed $1
+            const baseUsd = baseToken ? this.depegMonitor.getUsdPrice(baseToken.symbol) : 1;
+
+            const quoted = await mapWithConcurrency(this.supportedTokens, Config.SCAN_CONCURRENCY, async (token): Promise<GalaPriceData | null> => {
                 try {
-                    // Skip GUSDC as it's our base currency
+                    // GUSDC is the base currency, so it isn't quoted
                     if (token.symbol === 'GUSDC') {
-                        const priceData: GalaPriceData = {
+                        return {
                             token: token.symbol,
-                            price: 1.0, // GUSDC is always $1
+                            price: baseUsd,
                             timestamp: Date.now(),
                             source: 'galadex',
                             feeTier: 500
                         };
-                        prices.push(priceData);
-                        continue;
                     }
 
-                    // Get quote for 1 unit of token to GUSDC to determine price
-                    const quote = await this.gswap.quoting.quoteExactInput(
-                        token.classKey as any,
-                        'GUSDC|Unit|none|none',
-                        '1',
-                        500 // 0.5% fee tier
-                    );
-
-                    const price = parseFloat((quote as any).amountOut || '0') / Math.pow(10, 6); // GUSDC has 6 decimals
+                    // Price 1 unit of token in GUSDC over the best direct or multi-hop route;
+                    // the other routes are only there to cross-check it
+                    const requestedAt = Date.now();
+                    const routes = baseToken ? await this.routeFinder.findRoutes(token, baseToken, 1) : [];
+                    const route = routes[0];
+                    const price = route ? route.amountOut * baseUsd : 0;
                     
-                    if (price > 0) {
+                    if (route && price > 0) {
                         const priceData: GalaPriceData = {
                             token: token.symbol,
                             price: price,
-                            timestamp: Date.now(),
+                            timestamp: requestedAt,
                             source: 'galadex',
-                            feeTier: 500
+                            feeTier: route.hops[0].fee,
+                            route: route.path
                         };
                         
-                        prices.push(priceData);
-                        
-                        // Store price data
-                        if (!this.priceData.has(token.symbol)) {
-                            this.priceData.set(token.symbol, []);
-                        }
-                        this.priceData.get(token.symbol)!.push(priceData);
-                        
-                        // Keep only last 100 price points
-                        const tokenPrices = this.priceData.get(token.symbol)!;
-                        if (tokenPrices.length > 100) {
-                            tokenPrices.splice(0, tokenPrices.length - 100);
-                        }
+                        const alternatives = routes.slice(1).map(r => r.amountOut * baseUsd);
+                        return this.recordPriceSample(token.symbol, price, requestedAt, alternatives) ? priceData : null;
                     }
                     
                 } catch (error) {
-                    this.logger.debug(`Failed to fetch price for ${token.symbol}:`, (error as any).message);
+                    // A token without a pool is routine; anything else means the price is missing for a reason
+                    const kind = classifyError(error);
+                    if (kind === 'pool-missing') {
+                        this.logger.debug(`No pool to price ${token.symbol}:`, (error as any).message);
+                    } else {
+                        this.logger.warn(`Failed to fetch price for ${token.symbol} (${kind}):`, (error as any).message);
+                    }
                 }
-            }
+                return null;
+            });
+            const prices = quoted.filter((price): price is GalaPriceData => price !== null);
+            await this.referencePrices?.compare(prices);
+            this.lastGalaUsdPrice = prices.find(price => price.token === 'GALA')?.price ?? this.lastGalaUsdPrice;
             
             this.logger.info(`📈 Fetched prices for ${prices.length} tokens`);
             return prices;
@@ -196,25 +263,59 @@ export class GalaDexService {
     async findArbitrageOpportunities(): Promise<GalaArbitrageOpportunity[]> {
         try {
             const opportunities: GalaArbitrageOpportunity[] = [];
-            const prices = await this.fetchPrices();
+            const startedAt = Date.now();
+            // Only this scan's requests, not those of trading or monitoring running alongside it
+            const usage: RequestUsage = { requests: 0, waitMs: 0 };
+
+            const prices = await gatewayRateLimiter.track(usage, () => this.fetchPrices());
+            const pricesFetchedAt = Date.now();
             
-            // Look for arbitrage opportunities between different fee tiers
+            // Look for arbitrage opportunities between different fee tiers of pairs that share pools
+            const pairs: Array<[GalaToken, GalaToken]> = [];
             for (let i = 0; i < this.supportedTokens.length; i++) {
                 for (let j = i + 1; j < this.supportedTokens.length; j++) {
                     const tokenA = this.supportedTokens[i];
                     const tokenB = this.supportedTokens[j];
-                    
-                    try {
-                        // Check both directions of the pair
-                        const opportunitiesAB = await this.checkArbitragePair(tokenA, tokenB);
-                        const opportunitiesBA = await this.checkArbitragePair(tokenB, tokenA);
-                        
-                        opportunities.push(...opportunitiesAB, ...opportunitiesBA);
-                    } catch (error) {
-                        this.logger.warn(`Failed to check arbitrage for ${tokenA.symbol}/${tokenB.symbol}:`, error);
-                    }
+                    if (this.tokenRegistry.getPoolsForPair(tokenA.classKey, tokenB.classKey).length < 2) continue;
+                    pairs.push([tokenA, tokenB]);
                 }
             }
+
+            const pairResults = await gatewayRateLimiter.track(usage, () => mapWithConcurrency(pairs, Config.SCAN_CONCURRENCY, async ([tokenA, tokenB]) => {
+                try {
+                    // Check both directions of the pair
+                    const opportunitiesAB = await this.checkArbitragePair(tokenA, tokenB, prices);
+                    const opportunitiesBA = await this.checkArbitragePair(tokenB, tokenA, prices);
+                    return [...opportunitiesAB, ...opportunitiesBA];
+                } catch (error) {
+                    this.logger.warn(`Failed to check arbitrage for ${tokenA.symbol}/${tokenB.symbol}:`, error);
+                    return [];
+                }
+            }));
+            pairResults.forEach(result => opportunities.push(...result));
+            const pairsScannedAt = Date.now();
+
+            if (Config.ENABLE_TRIANGULAR_ARBITRAGE) {
+                opportunities.push(...await gatewayRateLimiter.track(usage, () => this.findTriangularOpportunities(prices)));
+            }
+            const finishedAt = Date.now();
+
+            this.lastScanMetrics = {
+                startedAt,
+                durationMs: finishedAt - startedAt,
+                priceFetchMs: pricesFetchedAt - startedAt,
+                pairScanMs: pairsScannedAt - pricesFetchedAt,
+                triangularScanMs: finishedAt - pairsScannedAt,
+                pairsChecked: pairs.length,
+                opportunities: opportunities.length,
+                gatewayRequests: usage.requests,
+                throttledMs: usage.waitMs
+            };
+            this.logger.info(
+                `⏱️ Scan took ${this.lastScanMetrics.durationMs}ms (prices ${this.lastScanMetrics.priceFetchMs}ms, ` +
+                `pairs ${this.lastScanMetrics.pairScanMs}ms, triangular ${this.lastScanMetrics.triangularScanMs}ms), ` +
+                `${this.lastScanMetrics.gatewayRequests} gateway requests, ${this.lastScanMetrics.throttledMs}ms throttled`
+            );
             
             if (opportunities.length > 0) {
                 this.logger.info(`💰 Found ${opportunities.length} arbitrage opportunities`);
@@ -227,64 +328,65 @@ export class GalaDexService {
         }
     }
 
-    private async checkArbitragePair(tokenA: GalaToken, tokenB: GalaToken): Promise<GalaArbitrageOpportunity[]> {
+    getLastScanMetrics(): GalaScanMetrics | undefined {
+        return this.lastScanMetrics;
+    }
+
+    /**
+     * Buys tokenB with tokenA on one fee tier and sells it back on another, quoting
+     * both legs at the intended trade size. Only round trips that return more tokenA
+     * than they spend are reported, so price gaps that fees or depth eat are dropped.
+     */
+    private async checkArbitragePair(tokenA: GalaToken, tokenB: GalaToken, prices: GalaPriceData[]): Promise<GalaArbitrageOpportunity[]> {
         const opportunities: GalaArbitrageOpportunity[] = [];
-        const feeTiers: FEE_TIER[] = [500, 3000, 10000]; // Different fee tiers
-        
+
+        // Profit and volume are reported in USD, so the starting token needs a price
+        const priceA = prices.find(price => price.token === tokenA.symbol)?.price;
+        if (!priceA) return opportunities;
+
+        const feeTiers = Array.from(new Set(
+            this.tokenRegistry.getPoolsForPair(tokenA.classKey, tokenB.classKey).map(pool => pool.fee)
+        ));
+        if (feeTiers.length < 2) return opportunities;
+
+        const amountIn = Config.MAX_POSITION_SIZE / priceA;
+        const networkFee = await this.estimateNetworkFee(2, prices);
+
         try {
-            // Get quotes for different fee tiers
-            const quotes = new Map<FEE_TIER, number>();
-            
-            for (const feeTier of feeTiers) {
-                try {
-                    const quote = await this.gswap.quoting.quoteExactInput(
-                        tokenA.classKey,
-                        tokenB.classKey,
-                        '1',
-                        feeTier
-                    );
-                    
-                    const price = parseFloat((quote as any).amountOut || '0') / Math.pow(10, tokenB.decimals);
-                    quotes.set(feeTier, price);
-                } catch (error) {
-                    // Pool might not exist for this fee tier
-                    continue;
-                }
-            }
-            
-            if (quotes.size < 2) return opportunities;
-            
-            // Find price differences between fee tiers
-            const quoteEntries = Array.from(quotes.entries());
-            for (let i = 0; i < quoteEntries.length; i++) {
-                for (let j = i + 1; j < quoteEntries.length; j++) {
-                    const [feeTier1, price1] = quoteEntries[i];
-                    const [feeTier2, price2] = quoteEntries[j];
-                    
-                    const priceDiff = Math.abs(price1 - price2);
-                    const avgPrice = (price1 + price2) / 2;
-                    const profitPercentage = (priceDiff / avgPrice) * 100;
-                    
+            for (const buyTier of feeTiers) {
+                for (const sellTier of feeTiers) {
+                    if (buyTier === sellTier) continue;
+
+                    const roundTrip = await this.routeFinder.quoteRoute([
+                        { tokenIn: tokenA, tokenOut: tokenB, fee: buyTier },
+                        { tokenIn: tokenB, tokenOut: tokenA, fee: sellTier }
+                    ], amountIn);
+                    if (!roundTrip) continue;
+
+                    // Both legs pay the network fee, which decides thin round trips
+                    const profit = (roundTrip.amountOut - roundTrip.amountIn) * priceA - networkFee.usd;
+                    const profitPercentage = (profit / (roundTrip.amountIn * priceA)) * 100;
+                    this.logger.debug(`↔️ ${tokenA.symbol}/${tokenB.symbol} ${buyTier}->${sellTier}: ${profitPercentage.toFixed(3)}% after $${networkFee.usd.toFixed(4)} network fee`);
+
                     if (profitPercentage >= Config.MIN_PROFIT_THRESHOLD) {
-                        const buyPrice = Math.min(price1, price2);
-                        const sellPrice = Math.max(price1, price2);
-                        const profit = sellPrice - buyPrice;
-                        
                         opportunities.push({
+                            kind: 'fee-tier',
                             tokenIn: tokenA,
                             tokenOut: tokenB,
-                            buyPrice,
-                            sellPrice,
+                            buyPrice: priceA,
+                            sellPrice: priceA * (roundTrip.amountOut / roundTrip.amountIn),
                             profit,
                             profitPercentage,
-                            volume: Config.MAX_POSITION_SIZE,
-                            feeTier: price1 < price2 ? feeTier1 : feeTier2,
-                            timestamp: Date.now()
+                            volume: roundTrip.amountIn * priceA,
+                            feeTier: buyTier,
+                            timestamp: Date.now(),
+                            route: roundTrip,
+                            networkFeeUsd: networkFee.usd
                         });
                     }
                 }
             }
-            
+
         } catch (error) {
             this.logger.warn(`Error checking arbitrage for ${tokenA.symbol}/${tokenB.symbol}:`, error);
         }
@@ -292,10 +394,69 @@ export class GalaDexService {
         return opportunities;
     }
 
+    /**
+     * Quotes every three-pool cycle from each base token at a realistic size and
+     * keeps the ones that return more of the base token than they spend. Quoted
+     * outputs are already net of each pool's fee; only the network fee for each
+     * leg is taken off.
+     */
+    private async findTriangularOpportunities(prices: GalaPriceData[]): Promise<GalaArbitrageOpportunity[]> {
+        const opportunities: GalaArbitrageOpportunity[] = [];
+
+        for (const symbol of Config.TRIANGULAR_BASE_TOKENS) {
+            const baseToken = this.tokenRegistry.getToken(symbol);
+            if (!baseToken) {
+                this.logger.debug(`Triangular base token ${symbol} is not in the registry`);
+                continue;
+            }
+
+            // Profit and volume are reported in USD like the fee-tier opportunities
+            const basePrice = prices.find(price => price.token === baseToken.symbol)?.price;
+            if (!basePrice) continue;
+
+            try {
+                const cycles = await this.routeFinder.findCycles(baseToken, Config.TRIANGULAR_TRADE_SIZE);
+
+                for (const cycle of cycles) {
+                    const networkFee = await this.estimateNetworkFee(cycle.hops.length, prices);
+                    const profit = (cycle.amountOut - cycle.amountIn) * basePrice - networkFee.usd;
+                    const profitPercentage = (profit / (cycle.amountIn * basePrice)) * 100;
+                    if (profitPercentage < Config.MIN_PROFIT_THRESHOLD) break; // Sorted best first
+
+                    opportunities.push({
+                        kind: 'triangular',
+                        tokenIn: baseToken,
+                        tokenOut: baseToken,
+                        buyPrice: basePrice,
+                        sellPrice: basePrice * (cycle.amountOut / cycle.amountIn),
+                        profit,
+                        profitPercentage,
+                        volume: cycle.amountIn * basePrice,
+                        feeTier: cycle.hops[0].fee,
+                        timestamp: Date.now(),
+                        route: cycle,
+                        networkFeeUsd: networkFee.usd
+                    });
+                    this.logger.info(`🔺 Triangular ${cycle.path}: +${profitPercentage.toFixed(3)}% after fees`);
+                }
+            } catch (error) {
+                this.logger.warn(`Failed to check triangular cycles for ${baseToken.symbol}:`, error);
+            }
+        }
+
+        return opportunities;
+    }
+
     async executeSwap(opportunity: GalaArbitrageOpportunity): Promise<GalaSwapResult | null> {
+        if (opportunity.route) {
+            // Volume may have been trimmed by position sizing since the route was quoted
+            const amountIn = Math.min(opportunity.volume / opportunity.buyPrice, opportunity.route.amountIn);
+            return this.executeRoute(opportunity.route, TokenAmount.fromDecimal(amountIn, opportunity.tokenIn.decimals));
+        }
+
         if (Config.DRY_RUN) {
             this.logger.info(`🧪 DRY RUN: Would execute swap ${opportunity.tokenIn.symbol} -> ${opportunity.tokenOut.symbol}`);
-            return this.createMockSwapResult(opportunity);
+            return this.createMockSwapResult(opportunity, await this.estimateNetworkFee(1));
         }
 
         if (!Config.ENABLE_TRADING) {
@@ -303,67 +464,335 @@ export class GalaDexService {
             return null;
         }
 
+        // Calculate swap amount based on opportunity volume; the transaction tracker reports the outcome
+        return this.swap({
+            mode: 'exactIn',
+            tokenIn: opportunity.tokenIn,
+            tokenOut: opportunity.tokenOut,
+            fee: opportunity.feeTier,
+            amountIn: TokenAmount.fromDecimal(opportunity.volume / opportunity.buyPrice, opportunity.tokenIn.decimals)
+        }, { awaitConfirmation: false });
+    }
+
+    /**
+     * Executes a single-pool swap in either mode. The guard comes from a fresh
+     * quote in the same mode: exactIn sets amountOutMinimum below the quoted
+     * output, exactOut sets amountInMaximum above the quoted input. Without
+     * awaitConfirmation the swap is left to the transaction tracker.
+     */
+    async swap(request: GalaSwapRequest, options: GalaSwapOptions = {}): Promise<GalaSwapResult | null> {
+        const awaitConfirmation = options.awaitConfirmation ?? true;
+        const { mode, tokenIn, tokenOut, fee } = request;
+        const label = `${tokenIn.symbol} -> ${tokenOut.symbol} @ ${fee} (${mode})`;
+
+        if (!Config.DRY_RUN && !Config.ENABLE_TRADING) {
+            this.logger.info(`🚫 Trading disabled: Skipping swap ${label}`);
+            return null;
+        }
+
         try {
-            this.logger.info(`📝 Executing swap: ${opportunity.tokenIn.symbol} -> ${opportunity.tokenOut.symbol}...`);
-            
-            // Calculate swap amount based on opportunity volume
-            const amountIn = (opportunity.volume / opportunity.buyPrice).toString();
-            
-            // Calculate minimum amount out with slippage protection
-            const amountOutMinimum = (opportunity.volume * (1 - Config.MAX_SLIPPAGE)).toString();
-            
-            // Execute the swap
-            const swapResult = await this.gswap.swaps.swap(
-                opportunity.tokenIn.classKey,
-                opportunity.tokenOut.classKey,
-                opportunity.feeTier,
-                {
-                    exactIn: amountIn,
-                    amountOutMinimum: amountOutMinimum,
-                },
-                Config.WALLET_ADDRESS
+            const networkFee = await this.estimateNetworkFee(1);
+            const quote = request.mode === 'exactIn'
+                ? await this.getQuote(tokenIn, tokenOut, request.amountIn, fee)
+                : await this.getExactOutputQuote(tokenIn, tokenOut, request.amountOut, fee);
+
+            // exactIn: spend amountIn, receive at least amountOut. exactOut: receive amountOut, spend at most amountIn.
+            const amountIn = mode === 'exactIn' ? quote.amountIn : quote.amountIn.plusSlippage(Config.MAX_SLIPPAGE);
+            const amountOut = mode === 'exactIn' ? quote.outAmount.minusSlippage(Config.MAX_SLIPPAGE) : quote.outAmount;
+
+            if (Config.DRY_RUN) {
+                this.logger.info(`🧪 DRY RUN: Would execute swap ${label}: ${amountIn} ${tokenIn.symbol} -> ${amountOut} ${tokenOut.symbol}`);
+                return {
+                    transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+                    amountIn: amountIn.toString(),
+                    amountOut: amountOut.toString(),
+                    priceImpact: quote.priceImpact,
+                    fee: fee / 10000,
+                    networkFee,
+                    timestamp: Date.now(),
+                    mode,
+                    price: quote.price
+                };
+            }
+
+            // Without the event socket nothing would ever settle a swap left to the tracker
+            if (!awaitConfirmation && !transactionTracker.isAttached()) {
+                throw new Error(`Event socket not connected, refusing to submit ${label} without waiting on it`);
+            }
+
+            this.logger.info(`📝 Executing swap: ${label}...`);
+
+            const pending = await this.submitSwap(
+                tokenIn,
+                tokenOut,
+                fee,
+                mode === 'exactIn'
+                    ? { exactIn: amountIn.toString(), amountOutMinimum: amountOut.toString() }
+                    : { exactOut: amountOut.toString(), amountInMaximum: amountIn.toString() },
+                label
             );
-            
-            // Wait for transaction completion
-            const completed = await swapResult.wait();
-            
+
+            let transactionHash = pending.transactionId;
+            let fill: SwapFill | null = null;
+            let charged: NetworkFee | null = null;
+            if (awaitConfirmation) {
+                const completed = await this.confirmSwap(pending);
+                transactionHash = completed.transactionHash;
+                fill = parseSwapFill(completed.Data, tokenIn, tokenOut, fee);
+                charged = this.reportedNetworkFee([completed.Data]);
+            }
+
+            // Report what actually traded when the chain told us, otherwise the bounds we submitted
             const result: GalaSwapResult = {
-                transactionHash: completed.transactionHash,
-                amountIn: amountIn,
-                amountOut: amountOutMinimum,
-                priceImpact: 0, // Calculate based on actual vs expected
-                fee: opportunity.feeTier / 10000, // Convert to percentage
-                timestamp: Date.now()
+                transactionHash,
+                amountIn: (fill?.amountIn ?? amountIn).toString(),
+                amountOut: (fill?.amountOut ?? amountOut).toString(),
+                priceImpact: quote.priceImpact,
+                fee: fee / 10000, // Convert to percentage
+                networkFee: charged ?? networkFee,
+                timestamp: Date.now(),
+                mode,
+                price: fill?.price ?? quote.price,
+                status: awaitConfirmation ? 'confirmed' : 'submitted',
+                fill: fill ?? undefined
             };
-            
-            this.logger.info(`✅ Swap executed: ${result.transactionHash}`);
+
+            this.logger.info(awaitConfirmation ? `✅ Swap executed: ${result.transactionHash}` : `📤 Swap submitted: ${result.transactionHash}`);
             return result;
-            
+
+        } catch (error) {
+            this.logger.error(`Failed to execute swap ${label}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Quotes a single pool. Callers should read prices through this rather than
+     * the raw market data provider so everyone sees the same units.
+     */
+    async getQuote(tokenIn: GalaToken, tokenOut: GalaToken, amountIn: number | TokenAmount, fee?: FEE_TIER): Promise<NormalizedQuote> {
+        const exactIn = amountIn instanceof TokenAmount ? amountIn : TokenAmount.fromDecimal(amountIn, tokenIn.decimals);
+        const quote = await this.marketData.quoteExactInput(tokenIn.classKey, tokenOut.classKey, exactIn.toString(), fee);
+        return normalizeQuote(tokenIn, tokenOut, exactIn, quote);
+    }
+
+    /** Quotes the input needed to receive exactly amountOut of tokenOut. */
+    async getExactOutputQuote(tokenIn: GalaToken, tokenOut: GalaToken, amountOut: number | TokenAmount, fee?: FEE_TIER): Promise<NormalizedQuote> {
+        const exactOut = amountOut instanceof TokenAmount ? amountOut : TokenAmount.fromDecimal(amountOut, tokenOut.decimals);
+        const quote = await this.marketData.quoteExactOutput(tokenIn.classKey, tokenOut.classKey, exactOut.toString(), fee);
+        return normalizeExactOutputQuote(tokenIn, tokenOut, exactOut, quote);
+    }
+
+    getBaseToken(): GalaToken | undefined {
+        return this.tokenRegistry.getToken('GUSDC|Unit|none|none');
+    }
+
+    /**
+     * GalaChain's fee for a number of transactions, NETWORK_FEE_GALA each,
+     * priced in USD. GALA's price comes from the given prices, else the last
+     * scan's; only when no scan has priced GALA yet is it quoted.
+     */
+    async estimateNetworkFee(transactions: number, prices?: GalaPriceData[]): Promise<NetworkFee> {
+        const gala = Config.NETWORK_FEE_GALA * transactions;
+        if (gala <= 0) return { transactions, gala: 0, usd: 0, estimated: true };
+
+        let galaUsdPrice = prices?.find(price => price.token === 'GALA')?.price ?? this.lastGalaUsdPrice;
+        if (!galaUsdPrice) {
+            const galaToken = this.tokenRegistry.getToken('GALA|Unit|none|none');
+            const baseToken = this.getBaseToken();
+            try {
+                const route = galaToken && baseToken ? await this.routeFinder.findBestRoute(galaToken, baseToken, 1) : null;
+                if (route && baseToken) galaUsdPrice = route.amountOut * this.depegMonitor.getUsdPrice(baseToken.symbol);
+            } catch (error) {
+                this.logger.debug('Could not price GALA for the network fee:', (error as any).message);
+            }
+        }
+
+        if (galaUsdPrice) {
+            this.lastGalaUsdPrice = galaUsdPrice;
+        } else {
+            this.logger.warn(`⚠️ No GALA price, network fee of ${gala} GALA counted as $0`);
+        }
+        return { transactions, gala, usd: gala * (galaUsdPrice ?? 0), estimated: true };
+    }
+
+    /**
+     * The network fee completed transactions reported, one Data per
+     * transaction, priced at the last GALA price seen. Null unless every one
+     * of them reported its fee, so a partial report never undercounts.
+     */
+    reportedNetworkFee(data: Array<Record<string, unknown> | undefined>): NetworkFee | null {
+        const charged = data.map(parseNetworkFeeGala);
+        if (charged.length === 0 || charged.some(gala => gala === undefined)) return null;
+        const gala = charged.reduce((sum: number, fee) => sum + fee!, 0);
+        return { transactions: data.length, gala, usd: gala * (this.lastGalaUsdPrice ?? 0), estimated: false };
+    }
+
+    async findBestRoute(tokenIn: GalaToken, tokenOut: GalaToken, amountIn: number): Promise<SwapRoute | null> {
+        return this.routeFinder.findBestRoute(tokenIn, tokenOut, amountIn);
+    }
+
+    /**
+     * Executes a route hop by hop. Each hop spends what the previous one
+     * actually delivered, falling back to its guaranteed minimum when the chain
+     * didn't report the fill, so a hop never spends more than the wallet got.
+     * A smaller amountIn than the route was quoted for scales every hop
+     * proportionally.
+     */
+    async executeRoute(route: SwapRoute, amountIn?: TokenAmount): Promise<GalaSwapResult | null> {
+        const firstHop = route.hops[0];
+        const lastHop = route.hops[route.hops.length - 1];
+        const routeAmountIn = amountIn || TokenAmount.fromDecimal(route.amountIn, firstHop.tokenIn.decimals);
+
+        if (!Config.DRY_RUN && !Config.ENABLE_TRADING) {
+            this.logger.info(`🚫 Trading disabled: Skipping route ${route.path}`);
+            return null;
+        }
+
+        // Every hop is a transaction of its own
+        const networkFee = await this.estimateNetworkFee(route.hops.length);
+
+        if (Config.DRY_RUN) {
+            this.logger.info(`🧪 DRY RUN: Would execute route ${route.path} with ${routeAmountIn} ${firstHop.tokenIn.symbol}`);
+            const expectedOut = TokenAmount.fromDecimal(route.amountOut, lastHop.tokenOut.decimals)
+                .mul(routeAmountIn.toBigNumber().div(route.amountIn));
+            return {
+                transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+                amountIn: routeAmountIn.toString(),
+                amountOut: expectedOut.minusSlippage(Config.MAX_SLIPPAGE).toString(),
+                priceImpact: route.priceImpact,
+                fee: route.hops.reduce((sum, hop) => sum + hop.fee / 10000, 0),
+                networkFee,
+                timestamp: Date.now(),
+                route: route.path
+            };
+        }
+
+        try {
+            this.logger.info(`📝 Executing route: ${route.path} (${route.hops.length} hops)...`);
+
+            let hopAmountIn = routeAmountIn;
+            let transactionHash = '';
+            const hopFills: Array<SwapFill | null> = [];
+            const hopData: Array<Record<string, unknown> | undefined> = [];
+
+            for (const hop of route.hops) {
+                // Rescale the quoted output if the previous hop delivered a different input
+                const expectedOut = TokenAmount.fromDecimal(hop.amountOut, hop.tokenOut.decimals)
+                    .mul(hopAmountIn.toBigNumber().div(hop.amountIn));
+                const amountOutMinimum = expectedOut.minusSlippage(Config.MAX_SLIPPAGE);
+
+                // Each hop spends the previous one's output, so hops wait for confirmation
+                const completed = await this.confirmSwap(await this.submitSwap(
+                    hop.tokenIn,
+                    hop.tokenOut,
+                    hop.fee,
+                    {
+                        exactIn: hopAmountIn.toString(),
+                        amountOutMinimum: amountOutMinimum.toString(),
+                    },
+                    `${hop.tokenIn.symbol} -> ${hop.tokenOut.symbol} @ ${hop.fee}`
+                ));
+                transactionHash = completed.transactionHash;
+                const fill = parseSwapFill(completed.Data, hop.tokenIn, hop.tokenOut, hop.fee);
+                hopFills.push(fill);
+                hopData.push(completed.Data);
+                this.logger.info(`✅ Hop ${hop.tokenIn.symbol} -> ${hop.tokenOut.symbol} @ ${hop.fee}: ${transactionHash}`);
+
+                hopAmountIn = fill?.amountOut ?? amountOutMinimum;
+            }
+
+            const filled = hopFills.every((fill): fill is SwapFill => fill !== null);
+            return {
+                transactionHash,
+                amountIn: (filled ? hopFills[0]!.amountIn : routeAmountIn).toString(),
+                amountOut: hopAmountIn.toString(),
+                priceImpact: route.priceImpact,
+                fee: route.hops.reduce((sum, hop) => sum + hop.fee / 10000, 0),
+                networkFee: this.reportedNetworkFee(hopData) ?? networkFee,
+                timestamp: Date.now(),
+                route: route.path,
+                status: 'confirmed',
+                hopFills: filled ? hopFills as SwapFill[] : undefined
+            };
+
         } catch (error) {
-            this.logger.error(`Failed to execute swap ${opportunity.tokenIn.symbol} -> ${opportunity.tokenOut.symbol}:`, error);
+            this.logger.error(`Failed to execute route ${route.path}:`, error);
             throw error;
         }
     }
 
-    private createMockSwapResult(opportunity: GalaArbitrageOpportunity): GalaSwapResult {
+    /**
+     * Submits a swap through the wallet's swap queue and hands it to the
+     * transaction tracker. Submission counts against the swap circuit but is
+     * never retried: a request that timed out may still have been bundled.
+     */
+    private async submitSwap(tokenIn: GalaToken, tokenOut: GalaToken, fee: FEE_TIER, amount: SwapAmount, label: string): Promise<PendingTransaction> {
+        const maxAmountIn = 'exactIn' in amount ? amount.exactIn : amount.amountInMaximum;
+        return this.submitTransaction(label, [{ token: tokenIn, amount: TokenAmount.fromDecimal(maxAmountIn ?? 0, tokenIn.decimals, 'up') }], async () => {
+            const pending = await gatewayResilience.call(
+                'swap',
+                () => this.gswap.swaps.swap(tokenIn.classKey, tokenOut.classKey, fee, amount, Config.WALLET_ADDRESS),
+                { attempts: 1 }
+            );
+            transactionTracker.track(pending.transactionId, label, this.network.transactionWaitTimeoutMs, { tokenIn, tokenOut, fee });
+            return pending;
+        });
+    }
+
+    /**
+     * Submits any transaction from the wallet through its queue, after checking
+     * the balance covers spends plus the GALA network fee. submit must hand the
+     * transaction to the tracker, which is what lifts the hold on those funds.
+     */
+    async submitTransaction(label: string, spends: QueuedSpend[], submit: () => Promise<PendingTransaction>): Promise<PendingTransaction> {
+        const galaToken = this.tokenRegistry.getToken('GALA|Unit|none|none');
+        const networkFee = galaToken ? [{ token: galaToken, amount: TokenAmount.fromDecimal(Config.NETWORK_FEE_GALA, galaToken.decimals, 'up') }] : [];
+        return swapQueueFor(Config.WALLET_ADDRESS).submit({
+            label,
+            spends: [...spends, ...networkFee],
+            getBalance: token => this.getTokenBalanceAmount(token),
+            submit
+        });
+    }
+
+    /** Blocks until a submitted swap settles; failures come back as classified ResilienceErrors. */
+    private async confirmSwap(pending: PendingTransaction) {
+        try {
+            return await pending.wait();
+        } catch (error) {
+            throw gatewayResilience.toError('swap', error);
+        }
+    }
+
+    private createMockSwapResult(opportunity: GalaArbitrageOpportunity, networkFee: NetworkFee): GalaSwapResult {
         return {
             transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-            amountIn: (opportunity.volume / opportunity.buyPrice).toString(),
-            amountOut: (opportunity.volume * (1 - Config.MAX_SLIPPAGE)).toString(),
+            amountIn: TokenAmount.fromDecimal(opportunity.volume / opportunity.buyPrice, opportunity.tokenIn.decimals).toString(),
+            amountOut: TokenAmount.usd(opportunity.volume).minusSlippage(Config.MAX_SLIPPAGE).toString(),
             priceImpact: 0.1,
             fee: opportunity.feeTier / 10000,
+            networkFee,
             timestamp: Date.now()
         };
     }
 
     async getTokenBalance(token: GalaToken): Promise<number> {
+        return (await this.getTokenBalanceAmount(token)).toNumber();
+    }
+
+    /**
+     * The wallet's balance of token. A failed lookup throws rather than
+     * reporting zero, so callers never mistake an outage for an empty wallet.
+     */
+    async getTokenBalanceAmount(token: GalaToken): Promise<TokenAmount> {
         try {
-            const assets = await this.gswap.assets.getUserAssets(Config.WALLET_ADDRESS);
-            const tokenData = (assets as any).tokens?.find((t: any) => t.symbol === token.symbol);
-            return tokenData ? parseFloat(tokenData.quantity) : 0;
+            const assets = await this.marketData.getUserAssets(Config.WALLET_ADDRESS);
+            const tokenData = assets.tokens?.find(t => t.symbol === token.symbol);
+            return tokenData ? TokenAmount.fromDecimal(tokenData.quantity, token.decimals) : TokenAmount.zero(token.decimals);
         } catch (error) {
             this.logger.error(`Failed to get balance for ${token.symbol}:`, error);
-            return 0;
+            throw gatewayResilience.toError('assets', error);
         }
     }
 
@@ -371,7 +800,7 @@ export class GalaDexService {
         const balances = new Map<string, number>();
         
         try {
-            const assets = await this.gswap.assets.getUserAssets(Config.WALLET_ADDRESS);
+            const assets = await this.marketData.getUserAssets(Config.WALLET_ADDRESS);
             
             // Map all available tokens
             if ((assets as any).tokens) {
@@ -388,6 +817,7 @@ export class GalaDexService {
             }
         } catch (error) {
             this.logger.error('Failed to get balances:', error);
+            throw gatewayResilience.toError('assets', error);
         }
         
         return balances;
@@ -397,8 +827,42 @@ export class GalaDexService {
         return [...this.supportedTokens];
     }
 
-    getPriceHistory(token: string): GalaPriceData[] {
-        return this.priceData.get(token) || [];
+    /**
+     * Single entry point for price samples, so every strategy reads candles
+     * built from the same quotes. Samples that fail validation never reach
+     * the candles; the return value says whether this one did.
+     */
+    recordPriceSample(token: string, price: number, timestamp: number = Date.now(), alternatives?: number[]): boolean {
+        if (!this.priceValidator.validate({ token, price, timestamp, alternatives }).accepted) return false;
+        this.candles.addSample(token, price, timestamp);
+        return true;
+    }
+
+    getPriceValidationStats(): PriceValidatorStats {
+        return this.priceValidator.getStats();
+    }
+
+    /** How far a GalaDex price sits from the reference, or undefined without a usable reference. */
+    async compareToReference(token: string, price: number): Promise<ReferenceDivergence | undefined> {
+        if (!this.referencePrices) return undefined;
+        const [divergence] = await this.referencePrices.compare([{ token, price }]);
+        return divergence;
+    }
+
+    getReferencePriceStats(): ReferencePriceStats | undefined {
+        return this.referencePrices?.getStats();
+    }
+
+    getStablecoinStatuses(): StablecoinStatus[] {
+        return this.depegMonitor.getStatuses();
+    }
+
+    getStablecoinPairStatuses(): StablecoinPairStatus[] {
+        return this.depegMonitor.getPairStatuses();
+    }
+
+    getCandles(token: string, interval: CandleInterval, limit?: number): Candle[] {
+        return this.candles.getCandles(token, interval, limit);
     }
 
     async refreshTokenList(): Promise<void> {
@@ -408,33 +872,26 @@ export class GalaDexService {
     }
 
     getAvailableTradingPairs(): string[] {
-        const pairs: string[] = [];
-        for (let i = 0; i < this.supportedTokens.length; i++) {
-            for (let j = i + 1; j < this.supportedTokens.length; j++) {
-                pairs.push(`${this.supportedTokens[i].symbol}/${this.supportedTokens[j].symbol}`);
+        const pairs = new Set<string>();
+        for (const pool of this.tokenRegistry.getPools()) {
+            const token0 = this.tokenRegistry.getToken(pool.token0);
+            const token1 = this.tokenRegistry.getToken(pool.token1);
+            if (token0 && token1) {
+                pairs.add(`${token0.symbol}/${token1.symbol}`);
             }
         }
-        return pairs;
+        return Array.from(pairs);
     }
 
-    async getTokenLiquidity(token: string): Promise<number> {
+    async getMarketDepth(token: string): Promise<DepthProfile | null> {
         try {
             const tokenObj = this.supportedTokens.find(t => t.symbol === token);
-            if (!tokenObj) return 0;
-
-            // Get quote for a larger amount to test liquidity
-            const quote = await this.gswap.quoting.quoteExactInput(
-                tokenObj.classKey as any,
-                'GUSDC|Unit|none|none',
-                '1000', // Test with 1000 units
-                500
-            );
+            if (!tokenObj) return null;
 
-            const amountOut = parseFloat((quote as any).amountOut || '0') / Math.pow(10, 6);
-            return amountOut;
+            return await this.depthProfiler.profileToken(tokenObj);
         } catch (error) {
-            this.logger.debug(`Failed to get liquidity for ${token}:`, (error as any).message);
-            return 0;
+            this.logger.debug(`Failed to get market depth for ${token}:`, (error as any).message);
+            return null;
         }
     }
 }
@@ -0,0 +1,272 @@
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { LiquidityRangeStrategy, RangeSignal, measureVolatility } from '../strategies/liquidityRangeStrategy';
+import { GalaDexService, GalaToken } from './galaDexService';
+import { LiquidityPosition, LiquidityService, PositionValuation } from './liquidityService';
+import { LiquidityAction, PerformanceTracker } from './performanceTracker';
+import { gatewayResilience } from './resilience';
+
+export interface LiquidityRebalancerStats {
+    running: boolean;
+    checks: number;
+    rebalances: number;
+    feeCollections: number;
+    lastCheckedAt?: number;
+    lastRebalanceAt?: number;
+}
+
+// Below this share of the position's value, the token split is left as it is rather than paying for a swap
+const MIN_REBALANCE_SWAP_SHARE = 0.01;
+
+/**
+ * Runs LiquidityRangeStrategy over every liquidity position on a timer. A
+ * position that needs re-centering has its fees collected, its liquidity
+ * withdrawn, the withdrawn tokens swapped into the split the new range needs,
+ * and is reopened around the current price. Fees are also collected on their
+ * own once they pass LP_FEE_COLLECT_MIN_USD. Every step is recorded in the
+ * PerformanceTracker, with collected fees as income.
+ */
+export class LiquidityRebalancer {
+    private logger = new Logger('LiquidityRebalancer');
+    private galaDexService: GalaDexService;
+    private liquidityService: LiquidityService;
+    private performanceTracker: PerformanceTracker;
+    private strategy: LiquidityRangeStrategy;
+    private checkInterval?: NodeJS.Timeout;
+    private checking = false;
+    private lastRebalanced: Map<string, number> = new Map(); // By pool, since a re-centered position gets a new id
+    private stats = { checks: 0, rebalances: 0, feeCollections: 0 };
+    private lastCheckedAt?: number;
+    private lastRebalanceAt?: number;
+
+    constructor(galaDexService: GalaDexService, liquidityService: LiquidityService, performanceTracker: PerformanceTracker, strategy: LiquidityRangeStrategy = new LiquidityRangeStrategy()) {
+        this.galaDexService = galaDexService;
+        this.liquidityService = liquidityService;
+        this.performanceTracker = performanceTracker;
+        this.strategy = strategy;
+    }
+
+    start(intervalMs: number = Config.LP_REBALANCE_INTERVAL_MS): void {
+        this.stop();
+        this.logger.info(`💧 Rebalancing liquidity positions every ${intervalMs / 1000}s (edge ${Config.LP_REBALANCE_EDGE_PERCENT}%)`);
+        this.checkInterval = setInterval(() => {
+            this.check().catch(error => this.logger.error('Rebalance check failed:', error));
+        }, intervalMs);
+        this.check().catch(error => this.logger.error('Rebalance check failed:', error));
+    }
+
+    stop(): void {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = undefined;
+        }
+    }
+
+    async check(): Promise<void> {
+        // A slow rebalance must not overlap the next tick
+        if (this.checking) return;
+
+        if (gatewayResilience.isDegraded()) {
+            this.logger.warn(`⏸️ Rebalance check skipped, gateway degraded: ${gatewayResilience.getOpenEndpoints().join(', ')}`);
+            return;
+        }
+
+        this.checking = true;
+        try {
+            this.stats.checks++;
+            const valuations = await this.liquidityService.valuePositions();
+            for (const valuation of valuations) {
+                if (!(Number(valuation.position.liquidity) > 0)) continue;
+                try {
+                    await this.manage(valuation);
+                } catch (error) {
+                    this.logger.error(`Failed to manage ${pairOf(valuation.position)} ${valuation.position.positionId}:`, error);
+                }
+            }
+        } finally {
+            this.checking = false;
+            this.lastCheckedAt = Date.now();
+        }
+    }
+
+    getStats(): LiquidityRebalancerStats {
+        return {
+            running: this.checkInterval !== undefined,
+            ...this.stats,
+            lastCheckedAt: this.lastCheckedAt,
+            lastRebalanceAt: this.lastRebalanceAt
+        };
+    }
+
+    private async manage(valuation: PositionValuation): Promise<void> {
+        const { position } = valuation;
+        const signal = this.strategy.analyzeRange(valuation, this.measurePairVolatility(position));
+
+        if (signal.action === 'HOLD') {
+            // A dry run never collects, so on-chain fees would be counted again every check
+            if (!Config.DRY_RUN && valuation.feesUsd >= Config.LP_FEE_COLLECT_MIN_USD) {
+                await this.collect(valuation, `fees above $${Config.LP_FEE_COLLECT_MIN_USD}`);
+            }
+            return;
+        }
+
+        // Don't re-center around a price that is itself broken
+        const depegged = [position.token0, position.token1].find(token => this.galaDexService.depegMonitor.isDepegged(token.symbol));
+        if (depegged) {
+            this.logger.warn(`⏸️ Not re-centering ${pairOf(position)}: ${depegged.symbol} is off its peg`);
+            return;
+        }
+        if (this.galaDexService.depegMonitor.isPairOffPeg(position.token0.symbol, position.token1.symbol)) {
+            this.logger.warn(`⏸️ Not re-centering ${pairOf(position)}: the pool trades off 1:1`);
+            return;
+        }
+
+        const key = poolKey(position);
+        const lastRebalance = this.lastRebalanced.get(key);
+        if (lastRebalance && Date.now() - lastRebalance < Config.LP_REBALANCE_COOLDOWN_MS) {
+            this.logger.debug(`${pairOf(position)} needs re-centering (${signal.reason}) but was rebalanced ${((Date.now() - lastRebalance) / 1000).toFixed(0)}s ago`);
+            return;
+        }
+
+        await this.rebalance(valuation, signal);
+    }
+
+    private async rebalance(valuation: PositionValuation, signal: RangeSignal): Promise<void> {
+        const { position } = valuation;
+        const pair = pairOf(position);
+        this.logger.info(`🔁 Re-centering ${pair}: ${signal.reason} -> [${signal.minPrice.toPrecision(6)}, ${signal.maxPrice.toPrecision(6)}] (${signal.widthPercent.toFixed(1)}% wide)`);
+
+        // Collect first so fees are counted as income, not as principal carried into the new position.
+        // A dry run never collects, as above
+        if (!Config.DRY_RUN && valuation.feesUsd > 0) {
+            await this.collect(valuation, 'before re-centering');
+        }
+
+        const removed = await this.liquidityService.removeLiquidity(position, 1);
+        if (!removed) return;
+        this.lastRebalanced.set(poolKey(position), Date.now());
+        this.record('REMOVE', position, position.positionId, valuation.valueUsd, undefined, signal.reason);
+
+        let amount0 = await this.withdrawn(position.token0, removed.amount0);
+        let amount1 = await this.withdrawn(position.token1, removed.amount1);
+        [amount0, amount1] = await this.splitForRange(position, valuation.currentPrice, signal, amount0, amount1);
+
+        const added = await this.liquidityService.addLiquidity({
+            tokenA: position.token0,
+            tokenB: position.token1,
+            fee: position.fee,
+            minPrice: signal.minPrice,
+            maxPrice: signal.maxPrice,
+            amountA: amount0,
+            amountB: amount1
+        });
+        if (!added) return;
+
+        const addedUsd = Number(added.amount0) * valuation.token0UsdPrice + Number(added.amount1) * valuation.token1UsdPrice;
+        this.record('ADD', position, added.positionId, addedUsd);
+        this.record('REBALANCE', position, added.positionId, addedUsd, undefined,
+            `${signal.reason}; new range [${signal.minPrice.toPrecision(6)}, ${signal.maxPrice.toPrecision(6)}]`);
+        this.stats.rebalances++;
+        this.lastRebalanceAt = Date.now();
+        this.logger.info(`✅ Re-centered ${pair} as ${added.positionId}: ${added.amount0} ${position.token0.symbol} + ${added.amount1} ${position.token1.symbol}`);
+    }
+
+    private async collect(valuation: PositionValuation, reason: string): Promise<void> {
+        const { position } = valuation;
+        const collected = await this.liquidityService.collectFees(position);
+        if (!collected) return;
+
+        const feesUsd = Number(collected.amount0) * valuation.token0UsdPrice + Number(collected.amount1) * valuation.token1UsdPrice;
+        this.record('COLLECT', position, position.positionId, feesUsd, feesUsd, reason);
+        this.stats.feeCollections++;
+        this.logger.info(`💰 Collected $${feesUsd.toFixed(2)} in fees from ${pairOf(position)} (${reason})`);
+    }
+
+    /**
+     * What a removal left to redeposit. The chain only guarantees the removal
+     * minimums, so live runs never count on more than the wallet now holds.
+     */
+    private async withdrawn(token: GalaToken, expected: string): Promise<TokenAmount> {
+        const amount = TokenAmount.fromDecimal(expected, token.decimals);
+        if (Config.DRY_RUN) return amount;
+        const balance = await this.galaDexService.getTokenBalanceAmount(token);
+        return balance.lt(amount) ? balance : amount;
+    }
+
+    /**
+     * Swaps whichever token is in excess so the pair matches the split the new
+     * range needs at the current price; a range centered on the price holds
+     * both tokens, while a position that drifted out of range holds only one.
+     */
+    private async splitForRange(position: LiquidityPosition, price: number, signal: RangeSignal, amount0: TokenAmount, amount1: TokenAmount): Promise<[TokenAmount, TokenAmount]> {
+        const sqrtPrice = Math.sqrt(price);
+        const sqrtLower = Math.sqrt(signal.minPrice);
+        const sqrtUpper = Math.sqrt(signal.maxPrice);
+        // Token amounts per unit of liquidity, with token0 valued in token1
+        const unit0 = ((sqrtUpper - sqrtPrice) / (sqrtPrice * sqrtUpper)) * price;
+        const unit1 = sqrtPrice - sqrtLower;
+        const share0 = unit0 / (unit0 + unit1);
+
+        const value = amount0.toNumber() * price + amount1.toNumber();
+        const excessValue = amount0.toNumber() * price - share0 * value; // In token1; positive when token0 is over-weight
+        if (!(value > 0) || Math.abs(excessValue) < value * MIN_REBALANCE_SWAP_SHARE) {
+            return [amount0, amount1];
+        }
+
+        const [tokenIn, tokenOut]: GalaToken[] = excessValue > 0 ? [position.token0, position.token1] : [position.token1, position.token0];
+        const amountIn = excessValue > 0
+            ? TokenAmount.fromDecimal(excessValue / price, position.token0.decimals)
+            : TokenAmount.fromDecimal(-excessValue, position.token1.decimals);
+
+        const result = await this.galaDexService.swap({ mode: 'exactIn', tokenIn, tokenOut, fee: position.fee, amountIn });
+        if (!result) return [amount0, amount1];
+
+        const spent = TokenAmount.fromDecimal(result.amountIn, tokenIn.decimals);
+        const received = TokenAmount.fromDecimal(result.amountOut, tokenOut.decimals);
+        this.logger.info(`🔀 Swapped ${spent} ${tokenIn.symbol} -> ${received} ${tokenOut.symbol} to balance ${pairOf(position)} for its new range`);
+        return excessValue > 0
+            ? [amount0.sub(spent), amount1.add(received)]
+            : [amount0.add(received), amount1.sub(spent)];
+    }
+
+    /**
+     * Volatility of token1 against token0 over the last LP_VOLATILITY_WINDOW
+     * candles. Each token's candles are in USD, so the two are combined as if
+     * uncorrelated; stablecoins without history count as flat.
+     */
+    private measurePairVolatility(position: LiquidityPosition): number | undefined {
+        let variance = 0;
+        for (const token of [position.token0, position.token1]) {
+            const closes = this.galaDexService.candles.getCloses(token.symbol, Config.STRATEGY_CANDLE_INTERVAL, Config.LP_VOLATILITY_WINDOW);
+            const volatility = measureVolatility(closes);
+            if (volatility === undefined) {
+                if (Config.STABLECOINS.includes(token.symbol)) continue;
+                return undefined;
+            }
+            variance += volatility * volatility;
+        }
+        return Math.sqrt(variance);
+    }
+
+    private record(action: LiquidityAction, position: LiquidityPosition, positionId: string, valueUsd: number, feesUsd?: number, reason?: string): void {
+        this.performanceTracker.recordLiquidityAction({
+            id: `lp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            pair: pairOf(position),
+            positionId,
+            action,
+            valueUsd,
+            feesUsd,
+            timestamp: Date.now(),
+            reason
+        });
+    }
+}
+
+function pairOf(position: LiquidityPosition): string {
+    return `${position.token0.symbol}/${position.token1.symbol}`;
+}
+
+function poolKey(position: LiquidityPosition): string {
+    return `${position.token0.classKey}/${position.token1.classKey}/${position.fee}`;
+}
@@ -0,0 +1,643 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import BigNumber from 'bignumber.js';
+import { FEE_TIER, GetPoolDataResponse, GetUserPositionsResult, PendingTransaction } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { GalaDexService, GalaToken } from './galaDexService';
+import { gatewayRateLimiter } from './marketDataProvider';
+import { amountsForLiquidity, exactAmountsForLiquidity, liquidityForAmounts, priceToTick, tickToPrice } from './poolMath';
+import { gatewayResilience } from './resilience';
+import { QueuedSpend } from './swapQueue';
+import { stringifyClassKey } from './tokenRegistry';
+import { TransactionState, transactionTracker } from './transactionTracker';
+
+export interface LiquidityPosition {
+    positionId: string;
+    poolHash?: string;
+    token0: GalaToken; // Pool order: token0's class key sorts first
+    token1: GalaToken;
+    fee: FEE_TIER;
+    tickLower: number;
+    tickUpper: number;
+    priceLower: number; // token1 per token0 at tickLower
+    priceUpper: number;
+    liquidity: string;
+    dryRun?: boolean; // Simulated by DRY_RUN, never on chain
+}
+
+export interface PositionValuation {
+    position: LiquidityPosition;
+    currentPrice: number; // token1 per token0
+    inRange: boolean;
+    amount0: number;
+    amount1: number;
+    feesOwed0: number; // As last checkpointed on chain; fees earned since the last touch aren't counted
+    feesOwed1: number;
+    valueUsd: number; // Principal only
+    feesUsd: number;
+    token0UsdPrice: number;
+    token1UsdPrice: number;
+    holdValueUsd?: number; // What the deposited amounts would be worth today had they stayed in the wallet
+    impermanentLossUsd?: number; // valueUsd - holdValueUsd: negative when providing lost to holding
+    impermanentLossPercent?: number;
+    timestamp: number;
+}
+
+export interface LiquidityResult {
+    transactionHash: string;
+    positionId: string;
+    amount0: string;
+    amount1: string;
+    timestamp: number;
+    status?: TransactionState; // 'submitted' when the caller chose not to wait; transactionHash is then the bundler's txId
+}
+
+export interface LiquidityOptions {
+    awaitConfirmation?: boolean; // Default true; false returns once the bundler accepts the transaction
+}
+
+/** A new position over [minPrice, maxPrice], quoted as tokenB per tokenA in whichever order suits the caller. */
+export interface AddLiquidityRequest {
+    tokenA: GalaToken;
+    tokenB: GalaToken;
+    fee: FEE_TIER;
+    minPrice: number;
+    maxPrice: number;
+    amountA: TokenAmount; // Most of each token to deposit; the range and price decide how much is used
+    amountB: TokenAmount;
+}
+
+export interface LiquidityStats {
+    positions: number;
+    inRange: number;
+    valueUsd: number;
+    feesUsd: number;
+    impermanentLossUsd: number;
+    lastValuedAt?: number;
+}
+
+// What went into a position, for comparing against simply holding it
+interface PositionEntry {
+    amount0: number;
+    amount1: number;
+    openedAt: number;
+}
+
+const POSITIONS_PAGE_SIZE = 50;
+// Far above any position's fees: the chain settles what the position has earned and pays that out, capped at the request
+const COLLECT_ALL_AMOUNT = '1000000000000000000';
+const MAX_TICK = 886800;
+
+/**
+ * Manages concentrated-liquidity positions on GalaDex: lists the wallet's
+ * positions, opens them over a price range, removes liquidity, collects fees,
+ * and values each one against holding what was deposited. Token amounts come
+ * from the pool's current sqrt price and the position's liquidity, so minimums
+ * are set the same way swap() sets them, MAX_SLIPPAGE below the expected amounts.
+ * DRY_RUN keeps simulated positions in memory instead of submitting anything,
+ * and hides whatever liquidity it pretended to withdraw from real positions.
+ */
+export class LiquidityService {
+    private logger = new Logger('LiquidityService');
+    private galaDexService: GalaDexService;
+    private entriesFilePath: string;
+    private entries: Map<string, PositionEntry> = new Map();
+    private dryRunPositions: Map<string, LiquidityPosition> = new Map();
+    private dryRunWithdrawn: Map<string, BigNumber> = new Map(); // Liquidity by real position id
+    private valuations: Map<string, PositionValuation> = new Map();
+
+    constructor(galaDexService: GalaDexService, entriesFile: string = Config.LP_POSITIONS_FILE) {
+        this.galaDexService = galaDexService;
+        this.entriesFilePath = path.resolve(process.cwd(), entriesFile);
+        this.loadEntries();
+    }
+
+    /** Every position the wallet holds on chain, plus any simulated by DRY_RUN. */
+    async listPositions(): Promise<LiquidityPosition[]> {
+        const positions: LiquidityPosition[] = [];
+        let bookmark: string | undefined;
+
+        do {
+            const page = await gatewayResilience.call('positions', async () => {
+                await gatewayRateLimiter.acquire();
+                return this.galaDexService.gswap.positions.getUserPositions(Config.WALLET_ADDRESS, POSITIONS_PAGE_SIZE, bookmark);
+            });
+            for (const raw of page.positions) {
+                const position = this.withoutDryRunWithdrawals(this.toPosition(raw));
+                if (position) positions.push(position);
+            }
+            bookmark = page.bookmark || undefined;
+        } while (bookmark);
+
+        return [...positions, ...this.dryRunPositions.values()];
+    }
+
+    async addLiquidity(request: AddLiquidityRequest, options: LiquidityOptions = {}): Promise<LiquidityResult | null> {
+        const awaitConfirmation = options.awaitConfirmation ?? true;
+        const { tokenA, tokenB, fee } = request;
+        const label = `${tokenA.symbol}/${tokenB.symbol} @ ${fee} [${request.minPrice}, ${request.maxPrice}]`;
+
+        if (!Config.DRY_RUN && !Config.ENABLE_TRADING) {
+            this.logger.info(`🚫 Trading disabled: Skipping add liquidity ${label}`);
+            return null;
+        }
+        if (!(request.minPrice > 0) || !(request.maxPrice > request.minPrice)) {
+            throw new Error(`Invalid price range for ${label}`);
+        }
+
+        try {
+            // Pools are keyed by class key order; flip the caller's prices and amounts to match
+            const aIsToken0 = tokenA.classKey.localeCompare(tokenB.classKey) < 0;
+            const [token0, token1] = aIsToken0 ? [tokenA, tokenB] : [tokenB, tokenA];
+            const [amount0Desired, amount1Desired] = aIsToken0 ? [request.amountA, request.amountB] : [request.amountB, request.amountA];
+            const minPrice = aIsToken0 ? request.minPrice : 1 / request.maxPrice;
+            const maxPrice = aIsToken0 ? request.maxPrice : 1 / request.minPrice;
+
+            const pool = await this.getPoolData(token0, token1, fee);
+            const sqrtPrice = pool.sqrtPrice.toNumber();
+            const tickLower = Math.max(-MAX_TICK, Math.floor(priceToTick(minPrice) / pool.tickSpacing) * pool.tickSpacing);
+            const tickUpper = Math.min(MAX_TICK, Math.max(
+                Math.ceil(priceToTick(maxPrice) / pool.tickSpacing) * pool.tickSpacing,
+                tickLower + pool.tickSpacing
+            ));
+
+            const liquidity = liquidityForAmounts(sqrtPrice, tickLower, tickUpper, amount0Desired.toNumber(), amount1Desired.toNumber());
+            if (!(liquidity > 0)) {
+                throw new Error(`Deposit for ${label} adds no liquidity at the current price`);
+            }
+            const expected = amountsForLiquidity(liquidity, sqrtPrice, tickLower, tickUpper);
+            const amount0 = TokenAmount.fromDecimal(Math.min(expected.amount0, amount0Desired.toNumber()), token0.decimals);
+            const amount1 = TokenAmount.fromDecimal(Math.min(expected.amount1, amount1Desired.toNumber()), token1.decimals);
+            const range = `ticks ${tickLower}..${tickUpper}`;
+
+            if (Config.DRY_RUN) {
+                const positionId = `dry-${Math.random().toString(16).substr(2, 12)}`;
+                this.dryRunPositions.set(positionId, {
+                    positionId,
+                    token0,
+                    token1,
+                    fee,
+                    tickLower,
+                    tickUpper,
+                    priceLower: tickToPrice(tickLower),
+                    priceUpper: tickToPrice(tickUpper),
+                    liquidity: new BigNumber(liquidity).toFixed(),
+                    dryRun: true
+                });
+                this.recordEntry(positionId, amount0.toNumber(), amount1.toNumber());
+                this.logger.info(`🧪 DRY RUN: Would add liquidity ${label} (${range}): ${amount0} ${token0.symbol} + ${amount1} ${token1.symbol}`);
+                return {
+                    transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+                    positionId,
+                    amount0: amount0.toString(),
+                    amount1: amount1.toString(),
+                    timestamp: Date.now()
+                };
+            }
+
+            this.logger.info(`📝 Adding liquidity: ${label} (${range})...`);
+
+            const submitted = await this.submit(() => this.galaDexService.gswap.positions.addLiquidityByTicks({
+                walletAddress: Config.WALLET_ADDRESS,
+                positionId: '',
+                token0: token0.classKey,
+                token1: token1.classKey,
+                fee,
+                tickLower,
+                tickUpper,
+                amount0Desired: amount0Desired.toString(),
+                amount1Desired: amount1Desired.toString(),
+                amount0Min: amount0.minusSlippage(Config.MAX_SLIPPAGE).toString(),
+                amount1Min: amount1.minusSlippage(Config.MAX_SLIPPAGE).toString()
+            }), `add liquidity ${label}`, awaitConfirmation, [
+                { token: token0, amount: amount0Desired },
+                { token: token1, amount: amount1Desired }
+            ]);
+
+            // The chain names the new position in its response; until then it is known by its range
+            const positionId = typeof submitted.data?.positionId === 'string'
+                ? submitted.data.positionId
+                : rangeKey(token0, token1, fee, tickLower, tickUpper);
+            this.recordEntry(positionId, amount0.toNumber(), amount1.toNumber());
+
+            this.logger.info(awaitConfirmation ? `✅ Liquidity added: ${submitted.transactionHash}` : `📤 Liquidity submitted: ${submitted.transactionHash}`);
+            return {
+                transactionHash: submitted.transactionHash,
+                positionId,
+                amount0: amount0.toString(),
+                amount1: amount1.toString(),
+                timestamp: Date.now(),
+                status: submitted.status
+            };
+
+        } catch (error) {
+            this.logger.error(`Failed to add liquidity ${label}:`, error);
+            throw error;
+        }
+    }
+
+    /** Removes a fraction of a position's liquidity; 1 closes it. */
+    async removeLiquidity(position: LiquidityPosition, fraction: number = 1, options: LiquidityOptions = {}): Promise<LiquidityResult | null> {
+        const awaitConfirmation = options.awaitConfirmation ?? true;
+        const label = `${describe(position)} (${(fraction * 100).toFixed(0)}%)`;
+
+        if (!Config.DRY_RUN && !Config.ENABLE_TRADING) {
+            this.logger.info(`🚫 Trading disabled: Skipping remove liquidity ${label}`);
+            return null;
+        }
+        if (!(fraction > 0 && fraction <= 1)) {
+            throw new Error(`Invalid fraction ${fraction} for ${label}`);
+        }
+
+        try {
+            const liquidity = new BigNumber(position.liquidity).times(fraction).decimalPlaces(18, BigNumber.ROUND_DOWN);
+            const pool = await this.getPoolData(position.token0, position.token1, position.fee);
+            const expected = amountsForLiquidity(liquidity.toNumber(), pool.sqrtPrice.toNumber(), position.tickLower, position.tickUpper);
+            const amount0 = TokenAmount.fromDecimal(expected.amount0, position.token0.decimals);
+            const amount1 = TokenAmount.fromDecimal(expected.amount1, position.token1.decimals);
+
+            if (Config.DRY_RUN) {
+                if (position.dryRun) {
+                    this.shrinkDryRunPosition(position.positionId, fraction);
+                    this.scaleEntry(position, 1 - fraction);
+                } else {
+                    // The position is still on chain; without this it would be withdrawn again every check
+                    const withdrawn = this.dryRunWithdrawn.get(position.positionId) ?? new BigNumber(0);
+                    this.dryRunWithdrawn.set(position.positionId, withdrawn.plus(liquidity));
+                }
+                this.logger.info(`🧪 DRY RUN: Would remove liquidity ${label}: ${amount0} ${position.token0.symbol} + ${amount1} ${position.token1.symbol}`);
+                return {
+                    transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+                    positionId: position.positionId,
+                    amount0: amount0.toString(),
+                    amount1: amount1.toString(),
+                    timestamp: Date.now()
+                };
+            }
+
+            this.logger.info(`📝 Removing liquidity: ${label}...`);
+
+            const submitted = await this.submit(() => this.galaDexService.gswap.positions.removeLiquidity({
+                walletAddress: Config.WALLET_ADDRESS,
+                positionId: position.positionId,
+                token0: position.token0.classKey,
+                token1: position.token1.classKey,
+                fee: position.fee,
+                tickLower: position.tickLower,
+                tickUpper: position.tickUpper,
+                amount: liquidity.toFixed(),
+                amount0Min: amount0.minusSlippage(Config.MAX_SLIPPAGE).toString(),
+                amount1Min: amount1.minusSlippage(Config.MAX_SLIPPAGE).toString()
+            }), `remove liquidity ${label}`, awaitConfirmation);
+            this.scaleEntry(position, 1 - fraction);
+
+            this.logger.info(awaitConfirmation ? `✅ Liquidity removed: ${submitted.transactionHash}` : `📤 Removal submitted: ${submitted.transactionHash}`);
+            return {
+                transactionHash: submitted.transactionHash,
+                positionId: position.positionId,
+                amount0: amount0.toString(),
+                amount1: amount1.toString(),
+                timestamp: Date.now(),
+                status: submitted.status
+            };
+
+        } catch (error) {
+            this.logger.error(`Failed to remove liquidity ${label}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Collects everything the position has earned in fees, including what
+     * accrued since the chain last checkpointed it. The result reports the
+     * amounts the chain paid when confirmation is awaited, otherwise the
+     * checkpointed amounts as a lower bound. Null when nothing can be owed.
+     */
+    async collectFees(position: LiquidityPosition, options: LiquidityOptions = {}): Promise<LiquidityResult | null> {
+        const awaitConfirmation = options.awaitConfirmation ?? true;
+        const label = describe(position);
+
+        if (!Config.DRY_RUN && !Config.ENABLE_TRADING) {
+            this.logger.info(`🚫 Trading disabled: Skipping fee collection ${label}`);
+            return null;
+        }
+
+        try {
+            const owed = await this.getFeesOwed(position);
+            // Only liquidity in the pool earns fees past the checkpoint
+            if (owed.amount0.isZero() && owed.amount1.isZero() && !new BigNumber(position.liquidity).gt(0)) {
+                this.logger.debug(`No fees owed on ${label}`);
+                return null;
+            }
+
+            if (Config.DRY_RUN) {
+                this.logger.info(`🧪 DRY RUN: Would collect fees ${label}: ${owed.amount0} ${position.token0.symbol} + ${owed.amount1} ${position.token1.symbol}`);
+                return {
+                    transactionHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+                    positionId: position.positionId,
+                    amount0: owed.amount0.toString(),
+                    amount1: owed.amount1.toString(),
+                    timestamp: Date.now()
+                };
+            }
+
+            this.logger.info(`📝 Collecting fees: ${label}...`);
+
+            const submitted = await this.submit(() => this.galaDexService.gswap.positions.collectPositionFees({
+                walletAddress: Config.WALLET_ADDRESS,
+                positionId: position.positionId,
+                token0: position.token0.classKey,
+                token1: position.token1.classKey,
+                fee: position.fee,
+                tickLower: position.tickLower,
+                tickUpper: position.tickUpper,
+                amount0Requested: COLLECT_ALL_AMOUNT,
+                amount1Requested: COLLECT_ALL_AMOUNT
+            }), `collect fees ${label}`, awaitConfirmation);
+            const collected = parseCollectedAmounts(submitted.data, position) ?? owed;
+
+            this.logger.info(awaitConfirmation ? `✅ Fees collected: ${submitted.transactionHash}` : `📤 Fee collection submitted: ${submitted.transactionHash}`);
+            return {
+                transactionHash: submitted.transactionHash,
+                positionId: position.positionId,
+                amount0: collected.amount0.toString(),
+                amount1: collected.amount1.toString(),
+                timestamp: Date.now(),
+                status: submitted.status
+            };
+
+        } catch (error) {
+            this.logger.error(`Failed to collect fees ${label}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Values a position at the pool's current price. When one side is a
+     * stablecoin the other is priced off the pool itself, so value and
+     * impermanent loss reflect this pool rather than a quote with fees in it.
+     */
+    async valuePosition(position: LiquidityPosition): Promise<PositionValuation> {
+        const pool = await this.getPoolData(position.token0, position.token1, position.fee);
+        const sqrtPrice = new BigNumber(pool.sqrtPrice);
+        const currentPrice = sqrtPrice.pow(2).toNumber();
+        const { amount0, amount1 } = exactAmountsForLiquidity(new BigNumber(position.liquidity), sqrtPrice, position.tickLower, position.tickUpper);
+        const owed = await this.getFeesOwed(position);
+        const [usd0, usd1] = await this.getUsdPrices(position, currentPrice);
+
+        // Summed in BigNumber so large positions and small losses don't vanish into float rounding
+        const valueUsd = amount0.times(usd0).plus(amount1.times(usd1));
+        const feesUsd = owed.amount0.toBigNumber().times(usd0).plus(owed.amount1.toBigNumber().times(usd1));
+        const entry = this.entries.get(position.positionId) ?? this.entries.get(rangeKey(position.token0, position.token1, position.fee, position.tickLower, position.tickUpper));
+        const holdValueUsd = entry ? new BigNumber(entry.amount0).times(usd0).plus(new BigNumber(entry.amount1).times(usd1)) : undefined;
+        const impermanentLossUsd = holdValueUsd ? valueUsd.minus(holdValueUsd) : undefined;
+
+        const valuation: PositionValuation = {
+            position,
+            currentPrice,
+            inRange: currentPrice >= position.priceLower && currentPrice < position.priceUpper,
+            amount0: amount0.toNumber(),
+            amount1: amount1.toNumber(),
+            feesOwed0: owed.amount0.toNumber(),
+            feesOwed1: owed.amount1.toNumber(),
+            valueUsd: valueUsd.toNumber(),
+            feesUsd: feesUsd.toNumber(),
+            token0UsdPrice: usd0,
+            token1UsdPrice: usd1,
+            holdValueUsd: holdValueUsd?.toNumber(),
+            impermanentLossUsd: impermanentLossUsd?.toNumber(),
+            impermanentLossPercent: holdValueUsd?.gt(0) && impermanentLossUsd ? impermanentLossUsd.div(holdValueUsd).times(100).toNumber() : undefined,
+            timestamp: Date.now()
+        };
+        this.valuations.set(position.positionId, valuation);
+        return valuation;
+    }
+
+    /** Lists and values every position; positions that can't be valued are logged and left out. */
+    async valuePositions(): Promise<PositionValuation[]> {
+        const positions = await this.listPositions();
+        const valuations: PositionValuation[] = [];
+        for (const position of positions) {
+            try {
+                valuations.push(await this.valuePosition(position));
+            } catch (error) {
+                this.logger.warn(`Could not value ${describe(position)}:`, (error as any).message);
+            }
+        }
+
+        // Forget positions that are gone
+        const live = new Set(positions.map(position => position.positionId));
+        for (const positionId of this.valuations.keys()) {
+            if (!live.has(positionId)) this.valuations.delete(positionId);
+        }
+        return valuations;
+    }
+
+    /** Totals from the last valuation of each position. */
+    getStats(): LiquidityStats {
+        const valuations = Array.from(this.valuations.values());
+        return {
+            positions: valuations.length,
+            inRange: valuations.filter(valuation => valuation.inRange).length,
+            valueUsd: valuations.reduce((sum, valuation) => sum + valuation.valueUsd, 0),
+            feesUsd: valuations.reduce((sum, valuation) => sum + valuation.feesUsd, 0),
+            impermanentLossUsd: valuations.reduce((sum, valuation) => sum + (valuation.impermanentLossUsd ?? 0), 0),
+            lastValuedAt: valuations.length > 0 ? Math.max(...valuations.map(valuation => valuation.timestamp)) : undefined
+        };
+    }
+
+    private async getPoolData(token0: GalaToken, token1: GalaToken, fee: FEE_TIER): Promise<GetPoolDataResponse> {
+        return gatewayResilience.call('pool-data', async () => {
+            await gatewayRateLimiter.acquire();
+            return this.galaDexService.gswap.pools.getPoolData(token0.classKey, token1.classKey, fee);
+        });
+    }
+
+    private async getFeesOwed(position: LiquidityPosition): Promise<{ amount0: TokenAmount; amount1: TokenAmount }> {
+        if (position.dryRun) {
+            return { amount0: TokenAmount.zero(position.token0.decimals), amount1: TokenAmount.zero(position.token1.decimals) };
+        }
+
+        // The listing already gave the range, so the position is read directly rather than found by id
+        const onChain = await gatewayResilience.call('positions', async () => {
+            await gatewayRateLimiter.acquire();
+            return this.galaDexService.gswap.positions.getPosition(Config.WALLET_ADDRESS, {
+                token0ClassKey: position.token0.classKey,
+                token1ClassKey: position.token1.classKey,
+                fee: position.fee,
+                tickLower: position.tickLower,
+                tickUpper: position.tickUpper
+            });
+        });
+        return {
+            amount0: TokenAmount.fromDecimal(onChain?.tokensOwed0 ?? 0, position.token0.decimals),
+            amount1: TokenAmount.fromDecimal(onChain?.tokensOwed1 ?? 0, position.token1.decimals)
+        };
+    }
+
+    private async getUsdPrices(position: LiquidityPosition, currentPrice: number): Promise<[number, number]> {
+        const depegMonitor = this.galaDexService.depegMonitor;
+        const stable = (token: GalaToken) => Config.STABLECOINS.includes(token.symbol) ? depegMonitor.getUsdPrice(token.symbol) : undefined;
+        const usd0 = stable(position.token0);
+        const usd1 = stable(position.token1);
+
+        if (usd0 !== undefined && usd1 !== undefined) return [usd0, usd1];
+        if (usd1 !== undefined) return [currentPrice * usd1, usd1];
+        if (usd0 !== undefined) return [usd0, usd0 / currentPrice];
+
+        // Neither side is a stablecoin: quote token0 against the base and derive token1 from the pool
+        const base = this.galaDexService.getBaseToken();
+        if (!base) throw new Error('Base token not found in registry');
+        const quote = await this.galaDexService.getQuote(position.token0, base, 1);
+        const quotedUsd0 = quote.price * depegMonitor.getUsdPrice(base.symbol);
+        return [quotedUsd0, quotedUsd0 / currentPrice];
+    }
+
+    /**
+     * Submits a liquidity transaction through the wallet's queue, shared with
+     * swaps, and hands it to the transaction tracker. spends is what it can
+     * take from the wallet besides the network fee. Like swaps, submission is
+     * never retried: a request that timed out may still have been bundled.
+     */
+    private async submit(fn: () => Promise<PendingTransaction>, label: string, awaitConfirmation: boolean, spends: QueuedSpend[] = []): Promise<{ transactionHash: string; status: TransactionState; data?: Record<string, any> }> {
+        if (!awaitConfirmation && !transactionTracker.isAttached()) {
+            throw new Error(`Event socket not connected, refusing to submit ${label} without waiting on it`);
+        }
+        const pending = await this.galaDexService.submitTransaction(label, spends, async () => {
+            const submitted = await gatewayResilience.call('liquidity', fn, { attempts: 1 });
+            transactionTracker.track(submitted.transactionId, label, this.galaDexService.network.transactionWaitTimeoutMs);
+            return submitted;
+        });
+        if (!awaitConfirmation) {
+            return { transactionHash: pending.transactionId, status: 'submitted' };
+        }
+
+        try {
+            const completed = await pending.wait();
+            return { transactionHash: completed.transactionHash, status: 'confirmed', data: completed.Data };
+        } catch (error) {
+            throw gatewayResilience.toError('liquidity', error);
+        }
+    }
+
+    private toPosition(raw: GetUserPositionsResult): LiquidityPosition | null {
+        const token0 = this.galaDexService.tokenRegistry.getToken(stringifyClassKey(raw.token0ClassKey));
+        const token1 = this.galaDexService.tokenRegistry.getToken(stringifyClassKey(raw.token1ClassKey));
+        if (!token0 || !token1) {
+            this.logger.warn(`Skipping position ${raw.positionId}: ${raw.token0Symbol}/${raw.token1Symbol} not in token registry`);
+            return null;
+        }
+
+        // A position opened before its id was known is recorded under its range until it is listed
+        const key = rangeKey(token0, token1, raw.fee, raw.tickLower, raw.tickUpper);
+        const entry = this.entries.get(key);
+        if (entry && !this.entries.has(raw.positionId)) {
+            this.entries.delete(key);
+            this.entries.set(raw.positionId, entry);
+            this.saveEntries();
+        }
+
+        return {
+            positionId: raw.positionId,
+            poolHash: raw.poolHash,
+            token0,
+            token1,
+            fee: raw.fee as FEE_TIER,
+            tickLower: raw.tickLower,
+            tickUpper: raw.tickUpper,
+            priceLower: tickToPrice(raw.tickLower),
+            priceUpper: tickToPrice(raw.tickUpper),
+            liquidity: raw.liquidity.toFixed()
+        };
+    }
+
+    /** A real position less what dry runs withdrew from it, or null once nothing is left. */
+    private withoutDryRunWithdrawals(position: LiquidityPosition | null): LiquidityPosition | null {
+        const withdrawn = position && this.dryRunWithdrawn.get(position.positionId);
+        if (!position || !withdrawn) return position;
+        const remaining = new BigNumber(position.liquidity).minus(withdrawn);
+        return remaining.gt(0) ? { ...position, liquidity: remaining.toFixed() } : null;
+    }
+
+    private shrinkDryRunPosition(positionId: string, fraction: number): void {
+        const position = this.dryRunPositions.get(positionId);
+        if (!position) return;
+        if (fraction >= 1) {
+            this.dryRunPositions.delete(positionId);
+            this.valuations.delete(positionId);
+            return;
+        }
+        position.liquidity = new BigNumber(position.liquidity).times(1 - fraction).toFixed();
+    }
+
+    private recordEntry(positionId: string, amount0: number, amount1: number): void {
+        const existing = this.entries.get(positionId);
+        this.entries.set(positionId, {
+            amount0: (existing?.amount0 ?? 0) + amount0,
+            amount1: (existing?.amount1 ?? 0) + amount1,
+            openedAt: existing?.openedAt ?? Date.now()
+        });
+        this.saveEntries();
+    }
+
+    private scaleEntry(position: LiquidityPosition, remaining: number): void {
+        const key = this.entries.has(position.positionId)
+            ? position.positionId
+            : rangeKey(position.token0, position.token1, position.fee, position.tickLower, position.tickUpper);
+        const entry = this.entries.get(key);
+        if (!entry) return;
+
+        if (remaining <= 0) {
+            this.entries.delete(key);
+        } else {
+            this.entries.set(key, { ...entry, amount0: entry.amount0 * remaining, amount1: entry.amount1 * remaining });
+        }
+        this.saveEntries();
+    }
+
+    private loadEntries(): void {
+        try {
+            if (fs.existsSync(this.entriesFilePath)) {
+                const saved: Record<string, PositionEntry> = JSON.parse(fs.readFileSync(this.entriesFilePath, 'utf8'));
+                this.entries = new Map(Object.entries(saved));
+            }
+        } catch (error) {
+            this.logger.warn(`Failed to load position entries from ${this.entriesFilePath}:`, (error as any).message);
+        }
+    }
+
+    // Simulated positions only live as long as the process
+    private saveEntries(): void {
+        const saved: Record<string, PositionEntry> = {};
+        for (const [key, entry] of this.entries) {
+            if (!key.startsWith('dry-')) saved[key] = entry;
+        }
+        try {
+            fs.writeFileSync(this.entriesFilePath, JSON.stringify(saved, null, 2));
+        } catch (error) {
+            this.logger.warn(`Failed to save position entries to ${this.entriesFilePath}:`, (error as any).message);
+        }
+    }
+}
+
+/** Token amounts a confirmed fee collection paid out, in pool order, when the chain reported them. */
+function parseCollectedAmounts(data: Record<string, any> | undefined, position: LiquidityPosition): { amount0: TokenAmount; amount1: TokenAmount } | null {
+    const amounts = data?.amounts;
+    if (!Array.isArray(amounts) || amounts.length !== 2) return null;
+    const [amount0, amount1] = amounts.map(amount => new BigNumber(String(amount)).abs());
+    if (!amount0.isFinite() || !amount1.isFinite()) return null;
+    return {
+        amount0: TokenAmount.fromDecimal(amount0, position.token0.decimals),
+        amount1: TokenAmount.fromDecimal(amount1, position.token1.decimals)
+    };
+}
+
+function describe(position: LiquidityPosition): string {
+    return `${position.token0.symbol}/${position.token1.symbol} @ ${position.fee} ${position.positionId}`;
+}
+
+function rangeKey(token0: GalaToken, token1: GalaToken, fee: number, tickLower: number, tickUpper: number): string {
+    return `${token0.classKey}/${token1.classKey}/${fee}/${tickLower}/${tickUpper}`;
+}
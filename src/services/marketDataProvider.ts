@@ -0,0 +1,91 @@
+import { GSwap, FEE_TIER, GetQuoteResult, GetUserAssetsResult } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { RateLimiter } from '../utils/rateLimiter';
+import { MarketDataRecorder, ReplayMarketDataProvider } from './replayMarketDataProvider';
+import { CachedMarketDataProvider, sharedQuoteCache } from './quoteCache';
+import { ResilientMarketDataProvider, gatewayResilience } from './resilience';
+
+export type MarketDataSource = 'live' | 'replay';
+
+/**
+ * Read-only market access used by the bot: quotes and wallet balances.
+ * Swaps still go through GSwap directly.
+ */
+export interface MarketDataProvider {
+    readonly source: MarketDataSource;
+    quoteExactInput(tokenIn: string, tokenOut: string, amountIn: string, fee?: FEE_TIER): Promise<GetQuoteResult>;
+    quoteExactOutput(tokenIn: string, tokenOut: string, amountOut: string, fee?: FEE_TIER): Promise<GetQuoteResult>;
+    getUserAssets(walletAddress: string, page?: number, limit?: number): Promise<GetUserAssetsResult>;
+}
+
+/**
+ * Request budget for the GalaChain gateway, shared by every live provider in
+ * the process since they all hit the same endpoint.
+ */
+export const gatewayRateLimiter = new RateLimiter(Config.GATEWAY_MAX_REQUESTS_PER_SEC);
+
+export class GSwapMarketDataProvider implements MarketDataProvider {
+    readonly source: MarketDataSource = 'live';
+    private gswap: GSwap;
+    private recorder?: MarketDataRecorder;
+    private rateLimiter: RateLimiter;
+
+    constructor(gswap: GSwap, recorder?: MarketDataRecorder, rateLimiter: RateLimiter = gatewayRateLimiter) {
+        this.gswap = gswap;
+        this.recorder = recorder;
+        this.rateLimiter = rateLimiter;
+    }
+
+    async quoteExactInput(tokenIn: string, tokenOut: string, amountIn: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        await this.rateLimiter.acquire();
+        const quote = await this.gswap.quoting.quoteExactInput(tokenIn, tokenOut, amountIn, fee);
+        this.recorder?.recordQuote(tokenIn, tokenOut, amountIn, quote);
+        return quote;
+    }
+
+    async quoteExactOutput(tokenIn: string, tokenOut: string, amountOut: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        await this.rateLimiter.acquire();
+        const quote = await this.gswap.quoting.quoteExactOutput(tokenIn, tokenOut, amountOut, fee);
+        // Recorded as the equivalent exact-input sample so replay serves both directions
+        this.recorder?.recordQuote(tokenIn, tokenOut, quote.inTokenAmount.toString(), quote);
+        return quote;
+    }
+
+    async getUserAssets(walletAddress: string, page?: number, limit?: number): Promise<GetUserAssetsResult> {
+        await this.rateLimiter.acquire();
+        const assets = await this.gswap.assets.getUserAssets(walletAddress, page, limit);
+        this.recorder?.recordAssets(assets);
+        return assets;
+    }
+}
+
+// One recorder per process, since every GalaDexService records into the same file
+let recorder: MarketDataRecorder | undefined;
+
+/** Writes any quotes and balances still waiting to be recorded. */
+export function flushMarketDataRecording(): void {
+    recorder?.flush();
+}
+
+export function createMarketDataProvider(gswap: GSwap): MarketDataProvider {
+    const logger = new Logger('MarketDataProvider');
+    let provider: MarketDataProvider;
+
+    if (Config.MARKET_DATA_SOURCE === 'replay') {
+        // Also checked by Config.validate(), but not every entry point runs it
+        if (!Config.DRY_RUN) throw new Error('MARKET_DATA_SOURCE=replay requires DRY_RUN=true');
+        logger.info(`📼 Replaying market data from ${Config.MARKET_DATA_FIXTURE}`);
+        provider = ReplayMarketDataProvider.fromFile(Config.MARKET_DATA_FIXTURE);
+    } else if (Config.MARKET_DATA_RECORD_FILE) {
+        logger.info(`⏺️ Recording market data to ${Config.MARKET_DATA_RECORD_FILE}`);
+        recorder ??= new MarketDataRecorder(Config.MARKET_DATA_RECORD_FILE);
+        provider = new GSwapMarketDataProvider(gswap, recorder);
+    } else {
+        provider = new GSwapMarketDataProvider(gswap);
+    }
+
+    // Retries sit under the cache, so callers sharing an in-flight quote share its retries too
+    provider = new ResilientMarketDataProvider(provider, gatewayResilience);
+    return Config.QUOTE_CACHE_TTL_MS > 0 ? new CachedMarketDataProvider(provider, sharedQuoteCache) : provider;
+}
@@ -38,6 +38,20 @@ export class Monitor {
         this.logger.info(`📊 Exposure: $${stats.riskMetrics.totalExposure.toFixed(2)}`);
         this.logger.info(`📉 Max Drawdown: $${stats.riskMetrics.maxDrawdown.toFixed(2)}`);
         this.logger.info(`🔄 Active Orders: ${stats.orders.filter(o => o.status === 'pending').length}`);
+        if (stats.lastScan) {
+            this.logger.info(`⏱️ Last Scan: ${stats.lastScan.durationMs}ms, ${stats.lastScan.pairsChecked} pairs, ${stats.lastScan.gatewayRequests} gateway requests (${stats.lastScan.throttledMs}ms throttled)`);
+        }
+        this.logger.info(`🗄️ Quote Cache: ${stats.quoteCache.hitRate.toFixed(1)}% hit rate (${stats.quoteCache.hits} hits, ${stats.quoteCache.coalesced} coalesced, ${stats.quoteCache.misses} misses)`);
+        this.logger.info(`🩺 Gateway: ${stats.resilience.degraded ? `DEGRADED (${stats.resilience.openEndpoints.join(', ')})` : 'healthy'}, ${stats.resilience.retries} retries`);
+        this.logger.info(`📤 Transactions: ${stats.transactions.pending} pending, ${stats.transactions.confirmed} confirmed, ${stats.transactions.failed} failed (avg ${(stats.transactions.averageConfirmationMs / 1000).toFixed(1)}s to confirm)`);
+        const depegged = stats.stablecoins.filter(status => status.depegged);
+        if (depegged.length > 0) {
+            this.logger.warn(`🪙 Depegged: ${depegged.map(status => `${status.token} ${status.deviationPercent.toFixed(2)}%`).join(', ')}`);
+        }
+        if (stats.referencePrices) {
+            const { source, tokens, offReference } = stats.referencePrices;
+            this.logger.info(`🧭 Reference (${source}): ${tokens} tokens, ${offReference.length > 0 ? `off reference: ${offReference.join(', ')}` : 'all within limit'}`);
+        }
         this.logger.info('===============================');
     }
 
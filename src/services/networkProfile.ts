@@ -0,0 +1,92 @@
+import { GSwap, PrivateKeySigner, TradeEventEmitter } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+
+export type NetworkName = 'mainnet' | 'testnet' | 'local';
+
+export interface NetworkProfile {
+    name: NetworkName;
+    gatewayBaseUrl: string;
+    dexContractBasePath: string;
+    tokenContractBasePath: string;
+    bundlerBaseUrl: string;
+    bundlingAPIBasePath: string;
+    dexBackendBaseUrl: string;
+    transactionWaitTimeoutMs: number;
+}
+
+const CONTRACT_PATHS = {
+    dexContractBasePath: '/api/asset/dexv3-contract',
+    tokenContractBasePath: '/api/asset/token-contract',
+    bundlingAPIBasePath: '/bundle'
+};
+
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+    mainnet: {
+        name: 'mainnet',
+        ...CONTRACT_PATHS,
+        gatewayBaseUrl: 'https://gateway-mainnet.galachain.com',
+        bundlerBaseUrl: 'https://bundle-backend-prod1.defi.gala.com',
+        dexBackendBaseUrl: 'https://dex-backend-prod1.defi.gala.com',
+        transactionWaitTimeoutMs: 300000 // 5 minutes
+    },
+    testnet: {
+        name: 'testnet',
+        ...CONTRACT_PATHS,
+        gatewayBaseUrl: 'https://gateway-testnet.galachain.com',
+        bundlerBaseUrl: 'https://bundle-backend-test1.defi.gala.com',
+        dexBackendBaseUrl: 'https://dex-backend-test1.defi.gala.com',
+        transactionWaitTimeoutMs: 300000
+    },
+    // A stand-in gateway on this machine serving all three services
+    local: {
+        name: 'local',
+        ...CONTRACT_PATHS,
+        gatewayBaseUrl: 'http://localhost:3100',
+        bundlerBaseUrl: 'http://localhost:3100',
+        dexBackendBaseUrl: 'http://localhost:3100',
+        transactionWaitTimeoutMs: 30000
+    }
+};
+
+/**
+ * The profile named by GALA_NETWORK, with any URL or timeout overrides from
+ * the environment applied on top.
+ */
+export function getNetworkProfile(name: string = Config.GALA_NETWORK): NetworkProfile {
+    const base = NETWORK_PROFILES[name as NetworkName];
+    if (!base) {
+        throw new Error(`Unknown GALA_NETWORK "${name}" (expected ${Object.keys(NETWORK_PROFILES).join(', ')})`);
+    }
+
+    return {
+        ...base,
+        gatewayBaseUrl: Config.GALA_GATEWAY_URL || base.gatewayBaseUrl,
+        bundlerBaseUrl: Config.GALA_BUNDLER_URL || base.bundlerBaseUrl,
+        dexBackendBaseUrl: Config.GALA_DEX_BACKEND_URL || base.dexBackendBaseUrl,
+        transactionWaitTimeoutMs: Config.TRANSACTION_WAIT_TIMEOUT_MS || base.transactionWaitTimeoutMs
+    };
+}
+
+export interface GSwapOptions {
+    profile?: NetworkProfile;
+    privateKey?: string;
+    walletAddress?: string;
+}
+
+/**
+ * The one place a GSwap client is built. The bot, transaction tests and debug
+ * scripts all go through here so they talk to the same network.
+ */
+export function createGSwap(options: GSwapOptions = {}): GSwap {
+    const { name, ...endpoints } = options.profile || getNetworkProfile();
+    return new GSwap({
+        signer: new PrivateKeySigner(options.privateKey ?? Config.PRIVATE_KEY),
+        walletAddress: options.walletAddress ?? Config.WALLET_ADDRESS,
+        ...endpoints
+    });
+}
+
+/** Connects the SDK's shared event socket to the profile's bundler. */
+export async function connectEventSocket(profile: NetworkProfile = getNetworkProfile()): Promise<TradeEventEmitter> {
+    return GSwap.events.connectEventSocket(profile.bundlerBaseUrl);
+}
@@ -0,0 +1,64 @@
+import { FEE_TIER, GetQuoteResult } from '@gala-chain/gswap-sdk';
+import { TokenAmount } from '../utils/tokenAmount';
+import { GalaToken } from './galaDexService';
+
+/**
+ * The one shape every part of the bot reads a quote in. Amounts are in whole
+ * tokens at each token's decimals (the SDK's outTokenAmount is already scaled,
+ * so nothing divides by 10^decimals again), price is tokenOut per tokenIn, and
+ * priceImpact is a non-negative percentage. The SDK reports impact as a
+ * fraction of the pool price, so it is scaled here and nowhere else.
+ */
+export interface NormalizedQuote {
+    tokenIn: GalaToken;
+    tokenOut: GalaToken;
+    mode: SwapMode;
+    amountIn: TokenAmount;
+    outAmount: TokenAmount;
+    price: number;
+    priceImpact: number;
+    feeTier: FEE_TIER;
+    currentSqrtPrice: number;
+    newSqrtPrice: number;
+    timestamp: number;
+}
+
+export type SwapMode = 'exactIn' | 'exactOut';
+
+export function normalizeQuote(tokenIn: GalaToken, tokenOut: GalaToken, amountIn: TokenAmount, quote: GetQuoteResult): NormalizedQuote {
+    const outAmount = TokenAmount.fromDecimal(quote.outTokenAmount, tokenOut.decimals);
+    return {
+        tokenIn,
+        tokenOut,
+        mode: 'exactIn',
+        amountIn,
+        outAmount,
+        price: amountIn.isPositive() ? outAmount.ratio(amountIn).toNumber() : 0,
+        priceImpact: Math.abs(quote.priceImpact.toNumber()) * 100,
+        feeTier: quote.feeTier,
+        currentSqrtPrice: quote.currentPoolSqrtPrice.toNumber(),
+        newSqrtPrice: quote.newPoolSqrtPrice.toNumber(),
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Same shape for a quote that fixes the output. The required input is rounded
+ * up so the quoted amount is always enough to buy outAmount.
+ */
+export function normalizeExactOutputQuote(tokenIn: GalaToken, tokenOut: GalaToken, outAmount: TokenAmount, quote: GetQuoteResult): NormalizedQuote {
+    const amountIn = TokenAmount.fromDecimal(quote.inTokenAmount, tokenIn.decimals, 'up');
+    return {
+        tokenIn,
+        tokenOut,
+        mode: 'exactOut',
+        amountIn,
+        outAmount,
+        price: amountIn.isPositive() ? outAmount.ratio(amountIn).toNumber() : 0,
+        priceImpact: Math.abs(quote.priceImpact.toNumber()) * 100,
+        feeTier: quote.feeTier,
+        currentSqrtPrice: quote.currentPoolSqrtPrice.toNumber(),
+        newSqrtPrice: quote.newPoolSqrtPrice.toNumber(),
+        timestamp: Date.now()
+    };
+}
@@ -1,4 +1,5 @@
 import { Logger } from '../utils/logger';
+import { TokenAmount, USD_DECIMALS } from '../utils/tokenAmount';
 
 export interface PerformanceMetrics {
     totalTrades: number;
@@ -10,6 +11,9 @@ export interface PerformanceMetrics {
     averageLoss: number;
     maxDrawdown: number;
     sharpeRatio: number;
+    networkFees: number; // USD paid in GalaChain transaction fees, already taken off totalProfit
+    liquidityActions: number;
+    liquidityFeeIncome: number; // USD collected from liquidity positions, also counted in totalProfit
     startTime: number;
     lastUpdate: number;
 }
@@ -21,16 +25,36 @@ export interface TradeRecord {
     amount: number;
     price: number;
     timestamp: number;
-    profit?: number;
+    profit?: number; // Before the network fee
     isProfitable?: boolean;
+    networkFeeUsd?: number; // GalaChain fees for the trade's transactions
+}
+
+export type LiquidityAction = 'ADD' | 'REMOVE' | 'COLLECT' | 'REBALANCE';
+
+export interface LiquidityActionRecord {
+    id: string;
+    pair: string;
+    positionId: string;
+    action: LiquidityAction;
+    valueUsd: number; // Liquidity added or removed; for COLLECT, the fees collected
+    feesUsd?: number; // Fee income realised by this action
+    timestamp: number;
+    reason?: string;
 }
 
 export class PerformanceTracker {
     private logger = new Logger('PerformanceTracker');
     private metrics: PerformanceMetrics;
     private trades: TradeRecord[] = [];
+    private liquidityActions: LiquidityActionRecord[] = [];
     private dailyPnL: Map<string, number> = new Map(); // Date -> PnL
     private peakBalance = 0;
+    // Exact running totals; metrics expose them as numbers
+    private totalVolume = TokenAmount.zero(USD_DECIMALS);
+    private totalProfit = TokenAmount.zero(USD_DECIMALS);
+    private liquidityFeeIncome = TokenAmount.zero(USD_DECIMALS);
+    private networkFees = TokenAmount.zero(USD_DECIMALS);
 
     constructor() {
         this.metrics = {
@@ -43,6 +67,9 @@ export class PerformanceTracker {
             averageLoss: 0,
             maxDrawdown: 0,
             sharpeRatio: 0,
+            networkFees: 0,
+            liquidityActions: 0,
+            liquidityFeeIncome: 0,
             startTime: Date.now(),
             lastUpdate: Date.now()
         };
@@ -51,17 +78,28 @@ export class PerformanceTracker {
     recordTrade(trade: TradeRecord): void {
         this.trades.push(trade);
         this.metrics.totalTrades++;
-        this.metrics.totalVolume += trade.amount * trade.price;
+        this.totalVolume = this.totalVolume.add(TokenAmount.usd(trade.amount * trade.price));
+        this.metrics.totalVolume = this.totalVolume.toNumber();
         this.metrics.lastUpdate = Date.now();
 
-        // Update daily PnL
+        // Update daily PnL; the network fee is a cost even when the trade realises nothing
+        const networkFee = trade.networkFeeUsd ?? 0;
         const date = new Date(trade.timestamp).toDateString();
         const currentDailyPnL = this.dailyPnL.get(date) || 0;
-        this.dailyPnL.set(date, currentDailyPnL + (trade.profit || 0));
+        this.dailyPnL.set(date, currentDailyPnL + (trade.profit || 0) - networkFee);
+
+        if (networkFee > 0) {
+            const fee = TokenAmount.usd(networkFee);
+            this.networkFees = this.networkFees.add(fee);
+            this.metrics.networkFees = this.networkFees.toNumber();
+            this.totalProfit = this.totalProfit.sub(fee);
+            this.metrics.totalProfit = this.totalProfit.toNumber();
+        }
 
         // Update profit metrics
         if (trade.profit !== undefined) {
-            this.metrics.totalProfit += trade.profit;
+            this.totalProfit = this.totalProfit.add(TokenAmount.usd(trade.profit));
+            this.metrics.totalProfit = this.totalProfit.toNumber();
             
             if (trade.isProfitable) {
                 this.metrics.profitableTrades++;
@@ -81,7 +119,9 @@ export class PerformanceTracker {
             if (losingTrades.length > 0) {
                 this.metrics.averageLoss = Math.abs(losingTrades.reduce((sum, t) => sum + (t.profit || 0), 0) / losingTrades.length);
             }
+        }
 
+        if (trade.profit !== undefined || networkFee > 0) {
             // Update max drawdown
             this.updateMaxDrawdown();
 
@@ -89,7 +129,32 @@ export class PerformanceTracker {
             this.updateSharpeRatio();
         }
 
-        this.logger.debug(`📊 Trade recorded: ${trade.symbol} ${trade.action} ${trade.amount} @ ${trade.price} (Profit: ${trade.profit?.toFixed(4) || 'N/A'})`);
+        this.logger.debug(`📊 Trade recorded: ${trade.symbol} ${trade.action} ${trade.amount} @ ${trade.price} (Profit: ${trade.profit?.toFixed(4) || 'N/A'}, Network fee: ${networkFee.toFixed(4)})`);
+    }
+
+    /**
+     * Records what a liquidity position did. Fee income counts as profit on the
+     * day it was collected; moving liquidity in or out is not a trade and adds
+     * no volume.
+     */
+    recordLiquidityAction(record: LiquidityActionRecord): void {
+        this.liquidityActions.push(record);
+        this.metrics.liquidityActions++;
+        this.metrics.lastUpdate = Date.now();
+
+        if (record.feesUsd) {
+            const fees = TokenAmount.usd(record.feesUsd);
+            this.liquidityFeeIncome = this.liquidityFeeIncome.add(fees);
+            this.metrics.liquidityFeeIncome = this.liquidityFeeIncome.toNumber();
+            this.totalProfit = this.totalProfit.add(fees);
+            this.metrics.totalProfit = this.totalProfit.toNumber();
+
+            const date = new Date(record.timestamp).toDateString();
+            this.dailyPnL.set(date, (this.dailyPnL.get(date) || 0) + record.feesUsd);
+            this.updateSharpeRatio();
+        }
+
+        this.logger.debug(`💧 Liquidity ${record.action}: ${record.pair} ${record.positionId} $${record.valueUsd.toFixed(2)} (Fees: ${record.feesUsd?.toFixed(4) || 'N/A'})`);
     }
 
     private updateMaxDrawdown(): void {
@@ -98,8 +163,9 @@ export class PerformanceTracker {
         let maxDrawdown = 0;
 
         for (const trade of this.trades) {
-            if (trade.profit) {
-                runningBalance += trade.profit;
+            const net = (trade.profit || 0) - (trade.networkFeeUsd || 0);
+            if (net) {
+                runningBalance += net;
                 peak = Math.max(peak, runningBalance);
                 const drawdown = peak - runningBalance;
                 maxDrawdown = Math.max(maxDrawdown, drawdown);
@@ -137,6 +203,10 @@ export class PerformanceTracker {
         return this.trades.slice(-count).reverse();
     }
 
+    getRecentLiquidityActions(count: number = 10): LiquidityActionRecord[] {
+        return this.liquidityActions.slice(-count).reverse();
+    }
+
     getProfitableTrades(): TradeRecord[] {
         return this.trades.filter(t => t.isProfitable);
     }
@@ -162,10 +232,14 @@ export class PerformanceTracker {
    Win Rate: ${(metrics.winRate * 100).toFixed(1)}%
    Total Volume: $${metrics.totalVolume.toFixed(2)}
    Total Profit: $${metrics.totalProfit.toFixed(2)}
+   Network Fees: $${metrics.networkFees.toFixed(2)}
    Average Win: $${metrics.averageWin.toFixed(2)}
    Average Loss: $${metrics.averageLoss.toFixed(2)}
    Max Drawdown: $${metrics.maxDrawdown.toFixed(2)}
    Sharpe Ratio: ${metrics.sharpeRatio.toFixed(2)}
+💧 Liquidity:
+   Actions: ${metrics.liquidityActions}
+   Fee Income: $${metrics.liquidityFeeIncome.toFixed(2)}
 =====================================`;
     }
 
@@ -207,12 +281,20 @@ export class PerformanceTracker {
             averageLoss: 0,
             maxDrawdown: 0,
             sharpeRatio: 0,
+            networkFees: 0,
+            liquidityActions: 0,
+            liquidityFeeIncome: 0,
             startTime: Date.now(),
             lastUpdate: Date.now()
         };
         this.trades = [];
+        this.liquidityActions = [];
         this.dailyPnL.clear();
         this.peakBalance = 0;
+        this.totalVolume = TokenAmount.zero(USD_DECIMALS);
+        this.totalProfit = TokenAmount.zero(USD_DECIMALS);
+        this.liquidityFeeIncome = TokenAmount.zero(USD_DECIMALS);
+        this.networkFees = TokenAmount.zero(USD_DECIMALS);
         this.logger.info('🔄 Performance metrics reset');
     }
 }
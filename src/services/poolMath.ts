@@ -0,0 +1,162 @@
+import BigNumber from 'bignumber.js';
+
+/**
+ * Concentrated-liquidity math on whole-token amounts, with prices as token1
+ * per token0 and sqrt prices as the pool reports them. Plain numbers are
+ * precise enough for sizing and estimates; valuations use the BigNumber
+ * variant. Nothing here builds a transaction.
+ */
+
+export interface SwapPoolState {
+    sqrtPrice: number;
+    liquidity: number; // Active at the current price
+    fee: number; // In hundredths of a basis point, e.g. 3000 for 0.3%
+    initializedTicks: number[]; // Ascending
+}
+
+export interface SwapSimulation {
+    zeroForOne: boolean;
+    amountIn: number;
+    amountOut: number;
+    feeAmount: number;
+    price: number; // Effective tokenOut per tokenIn
+    priceImpact: number; // Percent the pool price moves, like NormalizedQuote
+    sqrtPriceAfter: number;
+    crossesTick: boolean; // The swap runs past the next initialized tick, where active liquidity changes
+}
+
+const WORD_BITS = 256;
+
+export function tickToPrice(tick: number): number {
+    return Math.pow(1.0001, tick);
+}
+
+export function priceToTick(price: number): number {
+    return Math.log(price) / Math.log(1.0001);
+}
+
+/** The tick the pool is in at a sqrt price, rounded down as on chain. */
+export function sqrtPriceToTick(sqrtPrice: number): number {
+    return Math.floor(priceToTick(sqrtPrice * sqrtPrice));
+}
+
+/** Token amounts held by liquidity between two ticks, at the pool's sqrt price (whole tokens, token1 per token0). */
+export function amountsForLiquidity(liquidity: number, sqrtPrice: number, tickLower: number, tickUpper: number): { amount0: number; amount1: number } {
+    const sqrtLower = Math.sqrt(tickToPrice(tickLower));
+    const sqrtUpper = Math.sqrt(tickToPrice(tickUpper));
+
+    if (sqrtPrice <= sqrtLower) {
+        return { amount0: liquidity * (sqrtUpper - sqrtLower) / (sqrtLower * sqrtUpper), amount1: 0 };
+    }
+    if (sqrtPrice >= sqrtUpper) {
+        return { amount0: 0, amount1: liquidity * (sqrtUpper - sqrtLower) };
+    }
+    return {
+        amount0: liquidity * (sqrtUpper - sqrtPrice) / (sqrtPrice * sqrtUpper),
+        amount1: liquidity * (sqrtPrice - sqrtLower)
+    };
+}
+
+/** amountsForLiquidity without rounding liquidity or the sqrt price to a double, for valuing positions. */
+export function exactAmountsForLiquidity(liquidity: BigNumber, sqrtPrice: BigNumber, tickLower: number, tickUpper: number): { amount0: BigNumber; amount1: BigNumber } {
+    const sqrtLower = new BigNumber(tickToPrice(tickLower)).sqrt();
+    const sqrtUpper = new BigNumber(tickToPrice(tickUpper)).sqrt();
+    const zero = new BigNumber(0);
+
+    if (sqrtPrice.lte(sqrtLower)) {
+        return { amount0: liquidity.times(sqrtUpper.minus(sqrtLower)).div(sqrtLower.times(sqrtUpper)), amount1: zero };
+    }
+    if (sqrtPrice.gte(sqrtUpper)) {
+        return { amount0: zero, amount1: liquidity.times(sqrtUpper.minus(sqrtLower)) };
+    }
+    return {
+        amount0: liquidity.times(sqrtUpper.minus(sqrtPrice)).div(sqrtPrice.times(sqrtUpper)),
+        amount1: liquidity.times(sqrtPrice.minus(sqrtLower))
+    };
+}
+
+/** Most liquidity the desired amounts can fund: whichever side runs out first decides. */
+export function liquidityForAmounts(sqrtPrice: number, tickLower: number, tickUpper: number, amount0: number, amount1: number): number {
+    const sqrtLower = Math.sqrt(tickToPrice(tickLower));
+    const sqrtUpper = Math.sqrt(tickToPrice(tickUpper));
+    const fromAmount0 = (lower: number) => amount0 * lower * sqrtUpper / (sqrtUpper - lower);
+    const fromAmount1 = (upper: number) => amount1 / (upper - sqrtLower);
+
+    if (sqrtPrice <= sqrtLower) return fromAmount0(sqrtLower);
+    if (sqrtPrice >= sqrtUpper) return fromAmount1(sqrtUpper);
+    return Math.min(fromAmount0(sqrtPrice), fromAmount1(sqrtPrice));
+}
+
+/**
+ * Initialized ticks from a pool's tick bitmap, ascending. Each word holds one
+ * bit per tick spacing, keyed by word index, so tick = (word * 256 + bit) * spacing.
+ */
+export function decodeTickBitmap(bitmap: Record<string, string>, tickSpacing: number): number[] {
+    const ticks: number[] = [];
+    for (const [word, value] of Object.entries(bitmap)) {
+        let bits = BigInt.asUintN(WORD_BITS, BigInt(value));
+        for (let bit = 0; bits > BigInt(0); bit++, bits >>= BigInt(1)) {
+            if (bits & BigInt(1)) ticks.push((Number(word) * WORD_BITS + bit) * tickSpacing);
+        }
+    }
+    return ticks.sort((a, b) => a - b);
+}
+
+/**
+ * Exact-input swap against a pool's active liquidity, fee taken from the
+ * input as on chain. Liquidity is only known up to the next initialized tick,
+ * so a swap that runs past it is still priced on the current liquidity but
+ * flagged, since the real fill from there on may be better or worse.
+ */
+export function simulateExactInput(pool: SwapPoolState, zeroForOne: boolean, amountIn: number): SwapSimulation {
+    const feeAmount = amountIn * pool.fee / 1_000_000;
+    const afterFee = amountIn - feeAmount;
+    const L = pool.liquidity;
+    const s = pool.sqrtPrice;
+
+    let sqrtPriceAfter: number;
+    let amountOut: number;
+    if (!(L > 0) || !(afterFee > 0)) {
+        sqrtPriceAfter = s;
+        amountOut = 0;
+    } else if (zeroForOne) {
+        sqrtPriceAfter = L * s / (L + afterFee * s);
+        amountOut = L * (s - sqrtPriceAfter);
+    } else {
+        sqrtPriceAfter = s + afterFee / L;
+        amountOut = L * (1 / s - 1 / sqrtPriceAfter);
+    }
+
+    const boundary = nextInitializedTick(pool, zeroForOne);
+    const crossesTick = boundary !== undefined && (zeroForOne
+        ? sqrtPriceAfter < Math.sqrt(tickToPrice(boundary))
+        : sqrtPriceAfter > Math.sqrt(tickToPrice(boundary)));
+
+    // Out per in before and after, so the impact reads the same in either direction
+    const ratio = (sqrtPriceAfter * sqrtPriceAfter) / (s * s);
+    const priceImpact = Math.abs((zeroForOne ? ratio : 1 / ratio) - 1) * 100;
+
+    return {
+        zeroForOne,
+        amountIn,
+        amountOut,
+        feeAmount,
+        price: amountIn > 0 ? amountOut / amountIn : 0,
+        priceImpact,
+        sqrtPriceAfter,
+        crossesTick
+    };
+}
+
+/** The first initialized tick the price reaches moving in the swap's direction. */
+function nextInitializedTick(pool: SwapPoolState, zeroForOne: boolean): number | undefined {
+    const current = sqrtPriceToTick(pool.sqrtPrice);
+    if (zeroForOne) {
+        // The current tick's own lower boundary counts, since the price leaves the range there
+        for (let i = pool.initializedTicks.length - 1; i >= 0; i--) {
+            if (pool.initializedTicks[i] <= current) return pool.initializedTicks[i];
+        }
+        return undefined;
+    }
+    return pool.initializedTicks.find(tick => tick > current);
+}
@@ -0,0 +1,109 @@
+import { FEE_TIER, GSwap } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { GalaToken } from './galaDexService';
+import { gatewayRateLimiter } from './marketDataProvider';
+import { SwapSimulation, decodeTickBitmap, simulateExactInput, sqrtPriceToTick } from './poolMath';
+import { gatewayResilience } from './resilience';
+import { RouteHop } from './routeFinder';
+
+export interface PoolState {
+    token0: GalaToken;
+    token1: GalaToken;
+    fee: FEE_TIER;
+    sqrtPrice: number; // Whole tokens, token1 per token0
+    tick: number;
+    liquidity: number; // Active at the current price
+    tickSpacing: number;
+    initializedTicks: number[]; // Ascending
+    timestamp: number;
+}
+
+export interface RouteSimulation {
+    hops: SwapSimulation[];
+    amountIn: number;
+    amountOut: number;
+    priceImpact: number; // Compounded across hops, in percent like SwapRoute
+    crossesTick: boolean; // Some hop ran past its pool's active liquidity
+}
+
+/**
+ * Reads a pool's price, active liquidity and initialized ticks, and simulates
+ * swaps against them locally. One read serves every candidate size and route
+ * through the pool until POOL_STATE_TTL_MS passes, where each quote would be
+ * a gateway call of its own.
+ */
+export class PoolStateReader {
+    private logger = new Logger('PoolStateReader');
+    private gswap: GSwap;
+    private states: Map<string, PoolState> = new Map();
+
+    constructor(gswap: GSwap) {
+        this.gswap = gswap;
+    }
+
+    async getPoolState(tokenA: GalaToken, tokenB: GalaToken, fee: FEE_TIER): Promise<PoolState | null> {
+        const [token0, token1] = tokenA.classKey.localeCompare(tokenB.classKey) < 0 ? [tokenA, tokenB] : [tokenB, tokenA];
+        const key = `${token0.classKey}/${token1.classKey}/${fee}`;
+        const cached = this.states.get(key);
+        if (cached && Date.now() - cached.timestamp < Config.POOL_STATE_TTL_MS) {
+            return cached;
+        }
+
+        try {
+            const data = await gatewayResilience.call('pool-data', async () => {
+                await gatewayRateLimiter.acquire();
+                return this.gswap.pools.getPoolData(token0.classKey, token1.classKey, fee);
+            });
+
+            const sqrtPrice = data.sqrtPrice.toNumber();
+            const state: PoolState = {
+                token0,
+                token1,
+                fee,
+                sqrtPrice,
+                tick: sqrtPriceToTick(sqrtPrice),
+                liquidity: data.liquidity.toNumber(),
+                tickSpacing: data.tickSpacing,
+                initializedTicks: decodeTickBitmap(data.bitmap || {}, data.tickSpacing),
+                timestamp: Date.now()
+            };
+            this.states.set(key, state);
+            this.logger.debug(`🌊 ${token0.symbol}/${token1.symbol} @ ${fee}: tick ${state.tick}, liquidity ${state.liquidity.toPrecision(6)}, ${state.initializedTicks.length} initialized ticks`);
+            return state;
+        } catch (error) {
+            this.logger.debug(`Could not read pool ${token0.symbol}/${token1.symbol} @ ${fee}:`, (error as any).message);
+            return null;
+        }
+    }
+
+    /** Exact-input swap of amountIn (whole tokens) through one pool, or null when the pool can't be read. */
+    async simulateSwap(tokenIn: GalaToken, tokenOut: GalaToken, fee: FEE_TIER, amountIn: number): Promise<SwapSimulation | null> {
+        const state = await this.getPoolState(tokenIn, tokenOut, fee);
+        if (!state) return null;
+        return simulateExactInput(state, state.token0.classKey === tokenIn.classKey, amountIn);
+    }
+
+    /** Chains exact-input simulations along a route, each hop spending what the previous one returned. */
+    async simulateRoute(hops: Pick<RouteHop, 'tokenIn' | 'tokenOut' | 'fee'>[], amountIn: number): Promise<RouteSimulation | null> {
+        const simulations: SwapSimulation[] = [];
+        let amount = amountIn;
+        let retained = 1;
+
+        for (const hop of hops) {
+            const simulation = await this.simulateSwap(hop.tokenIn, hop.tokenOut, hop.fee, amount);
+            if (!simulation) return null;
+            simulations.push(simulation);
+            amount = simulation.amountOut;
+            retained *= 1 - simulation.priceImpact / 100;
+        }
+
+        return {
+            hops: simulations,
+            amountIn,
+            amountOut: amount,
+            priceImpact: (1 - retained) * 100,
+            crossesTick: simulations.some(simulation => simulation.crossesTick)
+        };
+    }
+}
@@ -0,0 +1,147 @@
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+
+export type PriceRejectionReason = 'invalid' | 'stale' | 'jump' | 'tier-divergence';
+
+export interface PriceSample {
+    token: string;
+    price: number;
+    timestamp: number; // When the quote was requested
+    alternatives?: number[]; // Same token priced through other fee tiers or routes at the same time
+}
+
+export interface PriceValidation {
+    accepted: boolean;
+    reason?: PriceRejectionReason;
+    detail?: string;
+}
+
+export interface PriceValidatorStats {
+    accepted: number;
+    rejected: number;
+    rejectedByReason: Record<PriceRejectionReason, number>;
+}
+
+export interface PriceValidatorOptions {
+    maxAgeMs: number;
+    maxJumpPercent: number;
+    medianWindow: number;
+    maxTierDivergencePercent: number;
+    jumpConfirmations: number;
+}
+
+/**
+ * Gatekeeper between quotes and price history. A sample is rejected when it
+ * is older than maxAgeMs, when it moves more than maxJumpPercent from the
+ * rolling median of recently accepted samples, or when the best price
+ * disagrees with the other tiers quoted alongside it by more than
+ * maxTierDivergencePercent. A genuine move is let through once
+ * jumpConfirmations consecutive samples agree with each other on the new level.
+ */
+export class PriceValidator {
+    private logger = new Logger('PriceValidator');
+    private options: PriceValidatorOptions;
+    private windows: Map<string, number[]> = new Map();
+    private pendingJumps: Map<string, number[]> = new Map();
+    private accepted = 0;
+    private rejectedByReason: Record<PriceRejectionReason, number> = { invalid: 0, stale: 0, jump: 0, 'tier-divergence': 0 };
+
+    constructor(options: Partial<PriceValidatorOptions> = {}) {
+        this.options = {
+            maxAgeMs: Config.PRICE_MAX_AGE_MS,
+            maxJumpPercent: Config.PRICE_MAX_JUMP_PERCENT,
+            medianWindow: Config.PRICE_MEDIAN_WINDOW,
+            maxTierDivergencePercent: Config.PRICE_MAX_TIER_DIVERGENCE_PERCENT,
+            jumpConfirmations: Config.PRICE_JUMP_CONFIRMATIONS,
+            ...options
+        };
+    }
+
+    /** Checks a sample and, if it passes, adds it to the token's rolling window. */
+    validate(sample: PriceSample): PriceValidation {
+        const result = this.check(sample);
+        if (result.accepted) {
+            this.accept(sample.token, sample.price);
+        } else {
+            this.rejectedByReason[result.reason!]++;
+            this.logger.warn(`🚫 Rejected ${sample.token} price ${sample.price} (${result.reason}): ${result.detail}`);
+        }
+        return result;
+    }
+
+    getMedian(token: string): number | undefined {
+        const window = this.windows.get(token);
+        return window && window.length > 0 ? median(window) : undefined;
+    }
+
+    getStats(): PriceValidatorStats {
+        const rejected = Object.values(this.rejectedByReason).reduce((sum, count) => sum + count, 0);
+        return { accepted: this.accepted, rejected, rejectedByReason: { ...this.rejectedByReason } };
+    }
+
+    private check(sample: PriceSample): PriceValidation {
+        const { token, price, timestamp, alternatives } = sample;
+
+        if (!Number.isFinite(price) || price <= 0) {
+            return { accepted: false, reason: 'invalid', detail: 'not a positive number' };
+        }
+
+        const ageMs = Date.now() - timestamp;
+        if (ageMs > this.options.maxAgeMs) {
+            return { accepted: false, reason: 'stale', detail: `${ageMs}ms old, limit ${this.options.maxAgeMs}ms` };
+        }
+
+        const others = (alternatives || []).filter(p => Number.isFinite(p) && p > 0);
+        if (others.length > 0) {
+            const reference = median(others);
+            const divergence = percentDiff(price, reference);
+            if (divergence > this.options.maxTierDivergencePercent) {
+                return { accepted: false, reason: 'tier-divergence', detail: `${divergence.toFixed(2)}% from the median of ${others.length} other tiers (${reference})` };
+            }
+        }
+
+        const window = this.windows.get(token) || [];
+        // Too little history to call anything a jump yet
+        if (window.length < 3) return { accepted: true };
+
+        const reference = median(window);
+        const jump = percentDiff(price, reference);
+        if (jump <= this.options.maxJumpPercent) {
+            this.pendingJumps.delete(token);
+            return { accepted: true };
+        }
+
+        const pending = [...(this.pendingJumps.get(token) || []), price].slice(-this.options.jumpConfirmations);
+        this.pendingJumps.set(token, pending);
+        const pendingMedian = median(pending);
+        const confirmed = pending.length >= this.options.jumpConfirmations
+            && pending.every(p => percentDiff(p, pendingMedian) <= this.options.maxJumpPercent);
+        if (confirmed) {
+            // The market has moved: restart the window at the new level
+            this.logger.info(`📐 ${token} moved ${jump.toFixed(1)}% and held for ${pending.length} samples, resetting its median`);
+            this.windows.set(token, pending.slice(0, -1));
+            this.pendingJumps.delete(token);
+            return { accepted: true };
+        }
+
+        return { accepted: false, reason: 'jump', detail: `${jump.toFixed(2)}% from rolling median ${reference}` };
+    }
+
+    private accept(token: string, price: number): void {
+        this.accepted++;
+        const window = this.windows.get(token) || [];
+        window.push(price);
+        if (window.length > this.options.medianWindow) window.shift();
+        this.windows.set(token, window);
+    }
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function percentDiff(value: number, reference: number): number {
+    return (Math.abs(value - reference) / reference) * 100;
+}
@@ -25,6 +25,9 @@ export class ProfileManager {
             if (fs.existsSync(this.profilesFilePath)) {
                 const customProfiles = JSON.parse(fs.readFileSync(this.profilesFilePath, 'utf8'));
                 customProfiles.forEach((profile: TradingProfile) => {
+                    // Profiles saved before reference reversion existed leave it off
+                    profile.strategyWeights.reversion ??= 0;
+                    profile.enabledStrategies.reversion ??= false;
                     this.profiles.set(profile.id, profile);
                 });
                 this.logger.info(`📁 Loaded ${customProfiles.length} custom profiles`);
@@ -175,7 +178,8 @@ export class ProfileManager {
         summary += `   Trend: ${(currentProfile.strategyWeights.trend * 100).toFixed(1)}%\n`;
         summary += `   Bollinger Bands: ${(currentProfile.strategyWeights.bollingerBands * 100).toFixed(1)}%\n`;
         summary += `   Fibonacci: ${(currentProfile.strategyWeights.fibonacci * 100).toFixed(1)}%\n`;
-        summary += `   DCA: ${(currentProfile.strategyWeights.dca * 100).toFixed(1)}%\n\n`;
+        summary += `   DCA: ${(currentProfile.strategyWeights.dca * 100).toFixed(1)}%\n`;
+        summary += `   Reference Reversion: ${(currentProfile.strategyWeights.reversion * 100).toFixed(1)}%\n\n`;
         
         summary += `🛡️ Risk Settings:\n`;
         summary += `   Max Position: ${currentProfile.riskSettings.maxPositionSize}\n`;
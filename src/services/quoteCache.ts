@@ -0,0 +1,123 @@
+import { FEE_TIER, GetQuoteResult, GetUserAssetsResult } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { MarketDataProvider, MarketDataSource } from './marketDataProvider';
+
+export interface QuoteCacheStats {
+    hits: number;
+    misses: number;
+    coalesced: number; // Requests that joined a quote already in flight
+    entries: number;
+    hitRate: number; // Percent of requests served without a new gateway call
+    ttlMs: number;
+}
+
+export type QuoteMode = 'exactIn' | 'exactOut';
+
+interface CacheEntry {
+    quote: Promise<GetQuoteResult>;
+    expiresAt: number; // Infinity while the request is still in flight
+}
+
+/**
+ * Short-lived cache for quotes keyed by (mode, tokenIn, tokenOut, amount, fee tier).
+ * Concurrent requests for the same key share one gateway call, and the result
+ * is served to later callers until the TTL runs out. Failed quotes are dropped
+ * straight away so the next caller retries.
+ */
+export class QuoteCache {
+    private entries: Map<string, CacheEntry> = new Map();
+    private ttlMs: number;
+    private hits = 0;
+    private misses = 0;
+    private coalesced = 0;
+
+    constructor(ttlMs: number) {
+        this.ttlMs = ttlMs;
+    }
+
+    async get(mode: QuoteMode, tokenIn: string, tokenOut: string, amount: string, fee: FEE_TIER | undefined, fetch: () => Promise<GetQuoteResult>): Promise<GetQuoteResult> {
+        const key = `${mode}:${tokenIn}>${tokenOut}@${fee ?? 'best'}:${amount}`;
+        const now = Date.now();
+        const cached = this.entries.get(key);
+
+        if (cached && cached.expiresAt > now) {
+            if (cached.expiresAt === Infinity) {
+                this.coalesced++;
+            } else {
+                this.hits++;
+            }
+            return cached.quote;
+        }
+
+        this.misses++;
+        this.pruneExpired(now);
+
+        const entry: CacheEntry = { quote: fetch(), expiresAt: Infinity };
+        this.entries.set(key, entry);
+
+        try {
+            const quote = await entry.quote;
+            entry.expiresAt = Date.now() + this.ttlMs;
+            return quote;
+        } catch (error) {
+            if (this.entries.get(key) === entry) this.entries.delete(key);
+            throw error;
+        }
+    }
+
+    getStats(): QuoteCacheStats {
+        const requests = this.hits + this.misses + this.coalesced;
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            coalesced: this.coalesced,
+            entries: this.entries.size,
+            hitRate: requests > 0 ? ((this.hits + this.coalesced) / requests) * 100 : 0,
+            ttlMs: this.ttlMs
+        };
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    private pruneExpired(now: number): void {
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) this.entries.delete(key);
+        }
+    }
+}
+
+/**
+ * Shared by every GalaDexService in the process, so the bot, strategies and
+ * balance monitor reuse each other's quotes within a scan.
+ */
+export const sharedQuoteCache = new QuoteCache(Config.QUOTE_CACHE_TTL_MS);
+
+export class CachedMarketDataProvider implements MarketDataProvider {
+    readonly source: MarketDataSource;
+    private inner: MarketDataProvider;
+    private cache: QuoteCache;
+
+    constructor(inner: MarketDataProvider, cache: QuoteCache) {
+        this.source = inner.source;
+        this.inner = inner;
+        this.cache = cache;
+    }
+
+    quoteExactInput(tokenIn: string, tokenOut: string, amountIn: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        return this.cache.get('exactIn', tokenIn, tokenOut, amountIn, fee, () =>
+            this.inner.quoteExactInput(tokenIn, tokenOut, amountIn, fee)
+        );
+    }
+
+    quoteExactOutput(tokenIn: string, tokenOut: string, amountOut: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        return this.cache.get('exactOut', tokenIn, tokenOut, amountOut, fee, () =>
+            this.inner.quoteExactOutput(tokenIn, tokenOut, amountOut, fee)
+        );
+    }
+
+    getUserAssets(walletAddress: string, page?: number, limit?: number): Promise<GetUserAssetsResult> {
+        return this.inner.getUserAssets(walletAddress, page, limit);
+    }
+}
@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { Resilience } from './resilience';
+
+export type ReferencePriceSource = 'file' | 'http';
+
+export interface ReferencePriceSnapshot {
+    prices: Map<string, number>; // USD price by token symbol
+    timestamp: number; // When the source says the prices were taken
+}
+
+/**
+ * Where the wider market's prices come from, independent of GalaDex pools.
+ * Implementations only fetch; caching and divergence live in ReferencePriceFeed.
+ */
+export interface ReferencePriceProvider {
+    readonly source: ReferencePriceSource;
+    readonly location: string;
+    fetchPrices(): Promise<ReferencePriceSnapshot>;
+}
+
+export interface ReferenceDivergence {
+    token: string;
+    dexPrice: number;
+    referencePrice: number;
+    divergencePercent: number; // Signed: positive when GalaDex is above the reference
+    referenceAgeMs: number;
+    timestamp: number;
+}
+
+export interface ReferencePriceStats {
+    source: ReferencePriceSource;
+    location: string;
+    tokens: number;
+    lastUpdated?: number;
+    fetchFailures: number;
+    offReference: string[]; // Tokens currently beyond REFERENCE_MAX_DIVERGENCE_PERCENT
+}
+
+/**
+ * Accepts { "GALA": 0.0164 }, { "GALA": "0.0164" } or { "GALA": { "usd": 0.0164 } },
+ * which covers a hand-written file and most public price APIs.
+ */
+export function parseReferencePrices(raw: unknown): Map<string, number> {
+    const prices = new Map<string, number>();
+    if (!raw || typeof raw !== 'object') return prices;
+
+    for (const [symbol, value] of Object.entries(raw as Record<string, unknown>)) {
+        const candidate = value && typeof value === 'object'
+            ? (value as any).usd ?? (value as any).price
+            : value;
+        const price = typeof candidate === 'string' ? parseFloat(candidate) : candidate;
+        if (typeof price === 'number' && Number.isFinite(price) && price > 0) {
+            prices.set(symbol, price);
+        }
+    }
+    return prices;
+}
+
+function readTimestamp(raw: any, fallback: number): number {
+    const timestamp = Number(raw?.timestamp);
+    if (!Number.isFinite(timestamp) || timestamp <= 0) return fallback;
+    // Some APIs report seconds
+    return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+/**
+ * Reads { "timestamp"?: number, "prices": { SYMBOL: price } } from disk on
+ * every fetch, so the file can be edited while the bot runs. Without a
+ * timestamp the prices count as current when read.
+ */
+export class FileReferencePriceProvider implements ReferencePriceProvider {
+    readonly source: ReferencePriceSource = 'file';
+    readonly location: string;
+
+    constructor(filePath: string) {
+        this.location = path.resolve(process.cwd(), filePath);
+    }
+
+    async fetchPrices(): Promise<ReferencePriceSnapshot> {
+        const raw = JSON.parse(await fs.promises.readFile(this.location, 'utf8'));
+        return { prices: parseReferencePrices(raw.prices ?? raw), timestamp: readTimestamp(raw, Date.now()) };
+    }
+}
+
+/**
+ * GETs prices from any JSON endpoint. pricesPath is a dot path to the symbol
+ * map inside the response ("" for the top level, "data.prices" for nested).
+ * Calls get retries and a circuit breaker from a resilience layer of their
+ * own, not the gateway's: an outage of a third-party price API must not
+ * mark the gateway degraded and pause trading along with it.
+ */
+export class HttpReferencePriceProvider implements ReferencePriceProvider {
+    readonly source: ReferencePriceSource = 'http';
+    readonly location: string;
+    private pricesPath: string;
+    private resilience = new Resilience();
+
+    constructor(url: string, pricesPath: string = Config.REFERENCE_PRICE_PATH) {
+        this.location = url;
+        this.pricesPath = pricesPath;
+    }
+
+    async fetchPrices(): Promise<ReferencePriceSnapshot> {
+        const response = await this.resilience.call('reference', () => axios.get(this.location, { timeout: 10000 }));
+        const body = response.data;
+        const pricesNode = this.pricesPath
+            ? this.pricesPath.split('.').reduce((node: any, key) => node?.[key], body)
+            : body;
+        return { prices: parseReferencePrices(pricesNode), timestamp: readTimestamp(body, Date.now()) };
+    }
+}
+
+/**
+ * Compares GalaDex prices with a reference source and remembers the latest
+ * divergence per token. The reference is refetched at most once per ttlMs,
+ * and is ignored once older than maxAgeMs: no reference means no divergence,
+ * never a made-up one.
+ */
+export class ReferencePriceFeed {
+    private logger = new Logger('ReferencePriceFeed');
+    private provider: ReferencePriceProvider;
+    private ttlMs: number;
+    private maxAgeMs: number;
+    private snapshot?: ReferencePriceSnapshot;
+    private fetchedAt = 0;
+    private inFlight?: Promise<void>;
+    private fetchFailures = 0;
+    private divergences: Map<string, ReferenceDivergence> = new Map();
+
+    constructor(provider: ReferencePriceProvider, ttlMs: number = Config.REFERENCE_PRICE_TTL_MS, maxAgeMs: number = Config.REFERENCE_PRICE_MAX_AGE_MS) {
+        this.provider = provider;
+        this.ttlMs = ttlMs;
+        this.maxAgeMs = maxAgeMs;
+    }
+
+    get source(): ReferencePriceSource {
+        return this.provider.source;
+    }
+
+    /** Reference price for a token, or undefined when unknown or too old. */
+    async getPrice(token: string): Promise<number | undefined> {
+        await this.refresh();
+        return this.currentPrice(token);
+    }
+
+    /**
+     * Records how far each GalaDex price sits from the reference and returns
+     * the divergences that could be computed.
+     */
+    async compare(prices: Array<{ token: string; price: number }>): Promise<ReferenceDivergence[]> {
+        await this.refresh();
+        const now = Date.now();
+        const results: ReferenceDivergence[] = [];
+
+        for (const { token, price } of prices) {
+            const referencePrice = this.currentPrice(token);
+            if (referencePrice === undefined || !(price > 0)) {
+                this.divergences.delete(token);
+                continue;
+            }
+
+            const divergence: ReferenceDivergence = {
+                token,
+                dexPrice: price,
+                referencePrice,
+                divergencePercent: ((price - referencePrice) / referencePrice) * 100,
+                referenceAgeMs: now - this.snapshot!.timestamp,
+                timestamp: now
+            };
+            if (Math.abs(divergence.divergencePercent) > Config.REFERENCE_MAX_DIVERGENCE_PERCENT && !this.isOffReference(token)) {
+                this.logger.warn(`🧭 ${token} on GalaDex is ${divergence.divergencePercent.toFixed(2)}% from reference (${price} vs ${referencePrice})`);
+            }
+            this.divergences.set(token, divergence);
+            results.push(divergence);
+        }
+        return results;
+    }
+
+    /** The last divergence computed for a token, if its reference is still fresh. */
+    getDivergence(token: string): ReferenceDivergence | undefined {
+        const divergence = this.divergences.get(token);
+        if (!divergence || this.currentPrice(token) === undefined) return undefined;
+        return divergence;
+    }
+
+    getDivergences(): ReferenceDivergence[] {
+        return Array.from(this.divergences.keys())
+            .map(token => this.getDivergence(token))
+            .filter((divergence): divergence is ReferenceDivergence => divergence !== undefined);
+    }
+
+    /** True when the token's last GalaDex price was further from the reference than trading allows. */
+    isOffReference(token: string): boolean {
+        const divergence = this.getDivergence(token);
+        return divergence !== undefined && Math.abs(divergence.divergencePercent) > Config.REFERENCE_MAX_DIVERGENCE_PERCENT;
+    }
+
+    getStats(): ReferencePriceStats {
+        return {
+            source: this.provider.source,
+            location: this.provider.location,
+            tokens: this.snapshot?.prices.size || 0,
+            lastUpdated: this.snapshot?.timestamp,
+            fetchFailures: this.fetchFailures,
+            offReference: this.getDivergences()
+                .filter(divergence => Math.abs(divergence.divergencePercent) > Config.REFERENCE_MAX_DIVERGENCE_PERCENT)
+                .map(divergence => divergence.token)
+        };
+    }
+
+    private currentPrice(token: string): number | undefined {
+        if (!this.snapshot || Date.now() - this.snapshot.timestamp > this.maxAgeMs) return undefined;
+        return this.snapshot.prices.get(token);
+    }
+
+    private async refresh(): Promise<void> {
+        if (Date.now() - this.fetchedAt < this.ttlMs) return;
+        // Concurrent callers share one fetch
+        if (!this.inFlight) {
+            this.inFlight = this.fetch().finally(() => {
+                this.inFlight = undefined;
+            });
+        }
+        await this.inFlight;
+    }
+
+    private async fetch(): Promise<void> {
+        try {
+            const snapshot = await this.provider.fetchPrices();
+            this.snapshot = snapshot;
+            this.logger.debug(`🧭 Loaded ${snapshot.prices.size} reference prices from ${this.provider.location}`);
+        } catch (error) {
+            this.fetchFailures++;
+            this.logger.warn(`Failed to fetch reference prices from ${this.provider.location}:`, (error as any).message);
+        }
+        // Failures wait out the TTL too, rather than hammering a broken source every call
+        this.fetchedAt = Date.now();
+    }
+}
+
+/** Builds the feed chosen by REFERENCE_PRICE_SOURCE, or undefined when it is 'none'. */
+export function createReferencePriceFeed(): ReferencePriceFeed | undefined {
+    const logger = new Logger('ReferencePriceFeed');
+    let provider: ReferencePriceProvider;
+
+    if (Config.REFERENCE_PRICE_SOURCE === 'file') {
+        provider = new FileReferencePriceProvider(Config.REFERENCE_PRICE_FILE);
+    } else if (Config.REFERENCE_PRICE_SOURCE === 'http') {
+        if (!Config.REFERENCE_PRICE_URL) {
+            logger.warn('REFERENCE_PRICE_SOURCE is http but REFERENCE_PRICE_URL is not set, reference prices disabled');
+            return undefined;
+        }
+        provider = new HttpReferencePriceProvider(Config.REFERENCE_PRICE_URL);
+    } else {
+        return undefined;
+    }
+
+    logger.info(`🧭 Reference prices from ${provider.source}: ${provider.location}`);
+    return new ReferencePriceFeed(provider);
+}
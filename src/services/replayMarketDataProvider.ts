@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import BigNumber from 'bignumber.js';
+import { FEE_TIER, GSwapSDKError, GetQuoteResult, GetUserAssetsResult, Price, SqrtPrice, UserAsset } from '@gala-chain/gswap-sdk';
+import { Logger } from '../utils/logger';
+import { MarketDataProvider, MarketDataSource } from './marketDataProvider';
+
+export interface QuoteSample {
+    timestamp: number;
+    amountIn: string;
+    amountOut: string;
+    priceImpact?: string; // A fraction of the pool price, as the SDK reports it
+    currentSqrtPrice?: string;
+    newSqrtPrice?: string;
+}
+
+export interface QuoteFixture {
+    tokenIn: string;
+    tokenOut: string;
+    fee: FEE_TIER;
+    samples: QuoteSample[];
+}
+
+export interface MarketDataFixture {
+    quotes: QuoteFixture[];
+    assets: UserAsset[];
+}
+
+function fixtureKey(tokenIn: string, tokenOut: string, fee: number): string {
+    return `${tokenIn}>${tokenOut}@${fee}`;
+}
+
+/**
+ * Serves quotes and balances from a recorded fixture file. Samples are replayed
+ * on a loop against the wall clock, so every caller within one scan sees the
+ * same sample. Quotes for other sizes are scaled linearly from the sample.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+    readonly source: MarketDataSource = 'replay';
+    private logger = new Logger('ReplayMarketDataProvider');
+    private quotes: Map<string, QuoteFixture> = new Map();
+    private assets: UserAsset[];
+    private startedAt = Date.now();
+
+    constructor(fixture: MarketDataFixture) {
+        for (const quote of fixture.quotes) {
+            if (quote.samples.length === 0) continue;
+            quote.samples.sort((a, b) => a.timestamp - b.timestamp);
+            this.quotes.set(fixtureKey(quote.tokenIn, quote.tokenOut, quote.fee), quote);
+        }
+        this.assets = fixture.assets || [];
+        this.logger.info(`📼 Loaded ${this.quotes.size} quote series and ${this.assets.length} assets`);
+    }
+
+    static fromFile(filePath: string): ReplayMarketDataProvider {
+        const resolved = path.resolve(process.cwd(), filePath);
+        const fixture = JSON.parse(fs.readFileSync(resolved, 'utf8')) as MarketDataFixture;
+        return new ReplayMarketDataProvider(fixture);
+    }
+
+    async quoteExactInput(tokenIn: string, tokenOut: string, amountIn: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        const feeTiers = fee !== undefined
+            ? [fee]
+            : [FEE_TIER.PERCENT_00_05, FEE_TIER.PERCENT_00_30, FEE_TIER.PERCENT_01_00];
+
+        let best: GetQuoteResult | null = null;
+        for (const feeTier of feeTiers) {
+            const quote = this.quoteFromFixture(tokenIn, tokenOut, amountIn, feeTier);
+            if (quote && (!best || quote.outTokenAmount.gt(best.outTokenAmount))) {
+                best = quote;
+            }
+        }
+
+        if (!best) {
+            throw GSwapSDKError.noPoolAvailableError(tokenIn, tokenOut, fee);
+        }
+        return best;
+    }
+
+    async quoteExactOutput(tokenIn: string, tokenOut: string, amountOut: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        const feeTiers = fee !== undefined
+            ? [fee]
+            : [FEE_TIER.PERCENT_00_05, FEE_TIER.PERCENT_00_30, FEE_TIER.PERCENT_01_00];
+
+        // Cheapest input across tiers, found by sizing an exact-input quote at each tier's rate
+        let best: GetQuoteResult | null = null;
+        for (const feeTier of feeTiers) {
+            const unit = this.quoteFromFixture(tokenIn, tokenOut, '1', feeTier);
+            if (!unit || unit.outTokenAmount.lte(0)) continue;
+
+            const amountIn = new BigNumber(amountOut).div(unit.outTokenAmount);
+            const quote = this.quoteFromFixture(tokenIn, tokenOut, amountIn.toFixed(), feeTier);
+            if (quote && (!best || quote.inTokenAmount.lt(best.inTokenAmount))) {
+                best = quote;
+            }
+        }
+
+        if (!best) {
+            throw GSwapSDKError.noPoolAvailableError(tokenIn, tokenOut, fee);
+        }
+        return best;
+    }
+
+    async getUserAssets(walletAddress: string, page: number = 1, limit: number = 10): Promise<GetUserAssetsResult> {
+        const start = (page - 1) * limit;
+        return {
+            tokens: this.assets.slice(start, start + limit),
+            count: this.assets.length
+        };
+    }
+
+    private quoteFromFixture(tokenIn: string, tokenOut: string, amountIn: string, fee: FEE_TIER): GetQuoteResult | null {
+        const direct = this.quotes.get(fixtureKey(tokenIn, tokenOut, fee));
+        const reverse = direct ? undefined : this.quotes.get(fixtureKey(tokenOut, tokenIn, fee));
+        const fixture = direct || reverse;
+        if (!fixture) return null;
+
+        const sample = this.sampleAt(fixture.samples);
+        const sampleIn = new BigNumber(sample.amountIn);
+        const sampleOut = new BigNumber(sample.amountOut);
+        if (sampleIn.lte(0) || sampleOut.lte(0)) return null;
+
+        // Reverse series are served at the inverse rate of the recorded direction
+        const rate = direct ? sampleOut.div(sampleIn) : sampleIn.div(sampleOut);
+        const sampleSize = direct ? sampleIn : sampleOut;
+        const inAmount = new BigNumber(amountIn);
+        const outAmount = inAmount.times(rate);
+        const priceImpact = new BigNumber(sample.priceImpact || 0).times(inAmount.div(sampleSize));
+        const newPrice = rate.times(new BigNumber(1).minus(priceImpact));
+
+        return {
+            amount0: inAmount,
+            amount1: outAmount.negated(),
+            currentPoolSqrtPrice: new BigNumber(sample.currentSqrtPrice || rate.sqrt()) as SqrtPrice,
+            newPoolSqrtPrice: new BigNumber(sample.newSqrtPrice || newPrice.sqrt()) as SqrtPrice,
+            inTokenAmount: inAmount,
+            outTokenAmount: outAmount,
+            currentPrice: rate as Price,
+            newPrice: newPrice as Price,
+            priceImpact,
+            feeTier: fee
+        };
+    }
+
+    private sampleAt(samples: QuoteSample[]): QuoteSample {
+        const first = samples[0].timestamp;
+        const span = samples[samples.length - 1].timestamp - first;
+        if (span <= 0) return samples[samples.length - 1];
+
+        const replayTime = first + ((Date.now() - this.startedAt) % span);
+        let current = samples[0];
+        for (const sample of samples) {
+            if (sample.timestamp > replayTime) break;
+            current = sample;
+        }
+        return current;
+    }
+}
+
+/**
+ * Captures live quotes and balances into a fixture file that
+ * ReplayMarketDataProvider can serve later.
+ */
+export class MarketDataRecorder {
+    private logger = new Logger('MarketDataRecorder');
+    private filePath: string;
+    private fixture: MarketDataFixture = { quotes: [], assets: [] };
+    private flushTimer?: NodeJS.Timeout;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(process.cwd(), filePath);
+        if (fs.existsSync(this.filePath)) {
+            this.fixture = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        }
+    }
+
+    recordQuote(tokenIn: string, tokenOut: string, amountIn: string, quote: GetQuoteResult): void {
+        let series = this.fixture.quotes.find(q =>
+            q.tokenIn === tokenIn && q.tokenOut === tokenOut && q.fee === quote.feeTier
+        );
+        if (!series) {
+            series = { tokenIn, tokenOut, fee: quote.feeTier, samples: [] };
+            this.fixture.quotes.push(series);
+        }
+
+        series.samples.push({
+            timestamp: Date.now(),
+            amountIn,
+            amountOut: quote.outTokenAmount.toString(),
+            priceImpact: quote.priceImpact.toString(),
+            currentSqrtPrice: quote.currentPoolSqrtPrice.toString(),
+            newSqrtPrice: quote.newPoolSqrtPrice.toString()
+        });
+        this.scheduleFlush();
+    }
+
+    recordAssets(assets: GetUserAssetsResult): void {
+        for (const token of assets.tokens) {
+            const index = this.fixture.assets.findIndex(a => a.symbol === token.symbol);
+            if (index >= 0) {
+                this.fixture.assets[index] = token;
+            } else {
+                this.fixture.assets.push(token);
+            }
+        }
+        this.scheduleFlush();
+    }
+
+    /** Writes out whatever a pending flush would have, e.g. on shutdown. */
+    flush(): void {
+        if (!this.flushTimer) return;
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        this.write();
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            this.write();
+        }, 5000);
+        this.flushTimer.unref();
+    }
+
+    private write(): void {
+        try {
+            fs.writeFileSync(this.filePath, JSON.stringify(this.fixture, null, 2));
+        } catch (error) {
+            this.logger.error(`Failed to write market data fixture ${this.filePath}:`, error);
+        }
+    }
+}
@@ -0,0 +1,199 @@
+import { FEE_TIER, GetQuoteResult, GetUserAssetsResult } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { CircuitBreaker, CircuitBreakerStats } from '../utils/circuitBreaker';
+import { MarketDataProvider, MarketDataSource } from './marketDataProvider';
+
+/**
+ * transient: worth retrying (rate limits, 5xx, dropped connections).
+ * pool-missing: the pair or fee tier has no pool, or too little liquidity for
+ * the amount; a normal answer, not an outage.
+ * rejected: the gateway understood the request and said no; retrying won't help.
+ * timeout: no answer in time; retried for reads, never for swaps.
+ */
+export type FailureKind = 'transient' | 'pool-missing' | 'rejected' | 'timeout';
+
+export class ResilienceError extends Error {
+    readonly kind: FailureKind;
+    readonly endpoint: string;
+    readonly circuitOpen: boolean;
+    readonly cause?: unknown;
+
+    constructor(kind: FailureKind, endpoint: string, message: string, cause?: unknown, circuitOpen: boolean = false) {
+        super(message);
+        this.name = 'ResilienceError';
+        this.kind = kind;
+        this.endpoint = endpoint;
+        this.cause = cause;
+        this.circuitOpen = circuitOpen;
+    }
+}
+
+const POOL_MISSING_CODES = new Set(['NO_POOL_AVAILABLE', 'OBJECT_NOT_FOUND', 'INSUFFICIENT_LIQUIDITY']);
+const TIMEOUT_CODES = new Set(['TRANSACTION_WAIT_TIMEOUT', 'ETIMEDOUT', 'ECONNABORTED']);
+// CONFLICT is the chain's MVCC read conflict: another transaction touched the same keys first
+const TRANSIENT_CODES = new Set([
+    'TOO_MANY_REQUESTS', 'SERVICE_UNAVAILABLE', 'SOCKET_CONNECTION_REQUIRED', 'CONFLICT',
+    'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'
+]);
+
+/**
+ * Sorts an error from the SDK (GSwapSDKError code and HTTP status), axios or
+ * fetch into one of the failure kinds. Anything unrecognised is treated as a
+ * rejection so it is never retried blindly.
+ */
+export function classifyError(error: unknown): FailureKind {
+    if (error instanceof ResilienceError) return error.kind;
+
+    const err = (error ?? {}) as any;
+    const code: string | undefined = err.code ?? err.cause?.code;
+    const status: number | undefined = err.details?.status ?? err.response?.status ?? err.status;
+    const message = String(err.message ?? '');
+
+    if (code && POOL_MISSING_CODES.has(code)) return 'pool-missing';
+    if ((code && TIMEOUT_CODES.has(code)) || err.name === 'TimeoutError' || err.name === 'AbortError' || status === 408 || status === 504) {
+        return 'timeout';
+    }
+    if ((code && TRANSIENT_CODES.has(code)) || status === 429 || (status !== undefined && status >= 500)) return 'transient';
+    if (/fetch failed|socket hang up|network error/i.test(message)) return 'transient';
+    return 'rejected';
+}
+
+export interface ResilienceCallOptions {
+    attempts?: number; // Overrides RETRY_MAX_ATTEMPTS; 1 disables retries
+}
+
+export interface ResilienceHealth {
+    degraded: boolean;
+    openEndpoints: string[];
+    retries: number;
+    endpoints: Record<string, CircuitBreakerStats>;
+}
+
+/**
+ * Runs gateway calls with retries and a circuit breaker per endpoint.
+ * Transient failures and timeouts are retried with exponential backoff and
+ * jitter; a run of them opens the endpoint's circuit, after which calls fail
+ * fast until the cooldown lets a probe through. Missing pools and rejections
+ * are answers from a healthy gateway, so they pass straight through and keep
+ * the circuit closed.
+ */
+export class Resilience {
+    private logger = new Logger('Resilience');
+    private breakers: Map<string, CircuitBreaker> = new Map();
+    private retries = 0;
+
+    async call<T>(endpoint: string, fn: () => Promise<T>, options: ResilienceCallOptions = {}): Promise<T> {
+        const attempts = Math.max(1, options.attempts ?? Config.RETRY_MAX_ATTEMPTS);
+        const breaker = this.getBreaker(endpoint);
+
+        for (let attempt = 1; ; attempt++) {
+            if (!breaker.canRequest()) {
+                throw new ResilienceError('transient', endpoint, `Circuit open for ${endpoint}, skipping call`, undefined, true);
+            }
+
+            try {
+                const result = await fn();
+                this.recordSuccess(endpoint, breaker);
+                return result;
+            } catch (error) {
+                const kind = classifyError(error);
+                if (kind === 'pool-missing' || kind === 'rejected') {
+                    this.recordSuccess(endpoint, breaker);
+                    throw this.toError(endpoint, error);
+                }
+
+                breaker.recordFailure();
+                if (breaker.getState() === 'open') {
+                    this.logger.warn(`⚡ Circuit opened for ${endpoint} after ${kind} failure: ${(error as any)?.message}`);
+                    throw this.toError(endpoint, error);
+                }
+                if (attempt >= attempts) throw this.toError(endpoint, error);
+
+                const delayMs = this.backoffDelay(attempt);
+                this.retries++;
+                this.logger.debug(`🔁 ${endpoint} ${kind} failure (attempt ${attempt}/${attempts}), retrying in ${delayMs}ms`);
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        }
+    }
+
+    /** Wraps an error that happened outside call(), e.g. waiting on a submitted swap. */
+    toError(endpoint: string, error: unknown): ResilienceError {
+        if (error instanceof ResilienceError) return error;
+        const message = (error as any)?.message ?? String(error);
+        return new ResilienceError(classifyError(error), endpoint, `${endpoint}: ${message}`, error);
+    }
+
+    /** Degraded while any endpoint's circuit is open and still cooling down. */
+    isDegraded(): boolean {
+        return this.getOpenEndpoints().length > 0;
+    }
+
+    getOpenEndpoints(): string[] {
+        return Array.from(this.breakers.entries())
+            .filter(([, breaker]) => breaker.getState() === 'open')
+            .map(([endpoint]) => endpoint);
+    }
+
+    getHealth(): ResilienceHealth {
+        const endpoints: Record<string, CircuitBreakerStats> = {};
+        for (const [endpoint, breaker] of this.breakers) {
+            endpoints[endpoint] = breaker.getStats();
+        }
+        const openEndpoints = this.getOpenEndpoints();
+        return { degraded: openEndpoints.length > 0, openEndpoints, retries: this.retries, endpoints };
+    }
+
+    private getBreaker(endpoint: string): CircuitBreaker {
+        let breaker = this.breakers.get(endpoint);
+        if (!breaker) {
+            breaker = new CircuitBreaker(Config.CIRCUIT_FAILURE_THRESHOLD, Config.CIRCUIT_COOLDOWN_MS);
+            this.breakers.set(endpoint, breaker);
+        }
+        return breaker;
+    }
+
+    private recordSuccess(endpoint: string, breaker: CircuitBreaker): void {
+        if (breaker.getState() !== 'closed') {
+            this.logger.info(`✅ Circuit closed for ${endpoint}`);
+        }
+        breaker.recordSuccess();
+    }
+
+    private backoffDelay(attempt: number): number {
+        const exponential = Math.min(Config.RETRY_MAX_DELAY_MS, Config.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        // Full jitter in the upper half, so retries from concurrent callers spread out
+        return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    }
+}
+
+/**
+ * Shared by every provider and service in the process, so a failing gateway
+ * trips the same circuits whoever is calling it.
+ */
+export const gatewayResilience = new Resilience();
+
+export class ResilientMarketDataProvider implements MarketDataProvider {
+    readonly source: MarketDataSource;
+    private inner: MarketDataProvider;
+    private resilience: Resilience;
+
+    constructor(inner: MarketDataProvider, resilience: Resilience) {
+        this.source = inner.source;
+        this.inner = inner;
+        this.resilience = resilience;
+    }
+
+    quoteExactInput(tokenIn: string, tokenOut: string, amountIn: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        return this.resilience.call('quote', () => this.inner.quoteExactInput(tokenIn, tokenOut, amountIn, fee));
+    }
+
+    quoteExactOutput(tokenIn: string, tokenOut: string, amountOut: string, fee?: FEE_TIER): Promise<GetQuoteResult> {
+        return this.resilience.call('quote', () => this.inner.quoteExactOutput(tokenIn, tokenOut, amountOut, fee));
+    }
+
+    getUserAssets(walletAddress: string, page?: number, limit?: number): Promise<GetUserAssetsResult> {
+        return this.resilience.call('assets', () => this.inner.getUserAssets(walletAddress, page, limit));
+    }
+}
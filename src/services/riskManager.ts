@@ -1,6 +1,11 @@
 import { Config } from '../config';
 import { Logger } from '../utils/logger';
+import { TokenAmount, USD_DECIMALS } from '../utils/tokenAmount';
 import { ArbitrageOpportunity, Order } from './tradingService';
+import { DepthProfiler } from './depthProfiler';
+import { ReferencePriceFeed } from './referencePrices';
+import { DepegMonitor } from './depegMonitor';
+import { PoolStateReader } from './poolStateReader';
 
 export interface RiskMetrics {
     totalExposure: number;
@@ -13,13 +18,25 @@ export interface RiskMetrics {
 
 export class RiskManager {
     private logger = new Logger('RiskManager');
-    private dailyPnL = 0;
+    // USD totals are kept at GUSDC precision so long runs of small trades don't drift
+    private dailyPnL = TokenAmount.zero(USD_DECIMALS);
     private totalTrades = 0;
     private successfulTrades = 0;
-    private maxDrawdown = 0;
-    private currentDrawdown = 0;
-    private peakValue = 0;
+    private maxDrawdown = TokenAmount.zero(USD_DECIMALS);
+    private currentDrawdown = TokenAmount.zero(USD_DECIMALS);
+    private peakValue = TokenAmount.zero(USD_DECIMALS);
     private orders: Order[] = [];
+    private depthProfiler?: DepthProfiler;
+    private referencePrices?: ReferencePriceFeed;
+    private depegMonitor?: DepegMonitor;
+    private poolState?: PoolStateReader;
+
+    constructor(depthProfiler?: DepthProfiler, referencePrices?: ReferencePriceFeed, depegMonitor?: DepegMonitor, poolState?: PoolStateReader) {
+        this.depthProfiler = depthProfiler;
+        this.referencePrices = referencePrices;
+        this.depegMonitor = depegMonitor;
+        this.poolState = poolState;
+    }
 
     async validateOpportunity(opportunity: ArbitrageOpportunity): Promise<boolean> {
         try {
@@ -35,24 +52,43 @@ export class RiskManager {
                 return false;
             }
 
+            // Check that the route doesn't trade against a stablecoin that has lost its peg
+            const depegged = this.getOpportunityTokens(opportunity).find(token => this.depegMonitor?.isDepegged(token));
+            if (depegged) {
+                this.logger.warn(`⚠️ ${depegged} is off its peg by more than ${Config.DEPEG_BAND_PERCENT}%`);
+                return false;
+            }
+            // A stable/stable pool off 1:1 with no reference to blame either side
+            const offPegHop = opportunity.route?.hops.find(hop => this.depegMonitor?.isPairOffPeg(hop.tokenIn.symbol, hop.tokenOut.symbol));
+            if (offPegHop) {
+                this.logger.warn(`⚠️ ${offPegHop.tokenIn.symbol}/${offPegHop.tokenOut.symbol} trades more than ${Config.DEPEG_BAND_PERCENT}% from 1:1`);
+                return false;
+            }
+
+            // Check that no token on the route is priced far from the wider market
+            const offReference = this.findOffReferenceToken(opportunity);
+            if (offReference) {
+                const divergence = this.referencePrices!.getDivergence(offReference)!;
+                this.logger.warn(`⚠️ ${offReference} is ${divergence.divergencePercent.toFixed(2)}% from reference, max ${Config.REFERENCE_MAX_DIVERGENCE_PERCENT}%`);
+                return false;
+            }
+
             // Check slippage tolerance
-            const expectedSlippage = this.calculateExpectedSlippage(opportunity);
+            const expectedSlippage = await this.calculateExpectedSlippage(opportunity);
             if (expectedSlippage > Config.MAX_SLIPPAGE) {
                 this.logger.warn(`⚠️ Expected slippage ${expectedSlippage.toFixed(2)}% exceeds max ${Config.MAX_SLIPPAGE * 100}%`);
                 return false;
             }
 
             // Check daily loss limit (5% of max position size)
-            const dailyLossLimit = Config.MAX_POSITION_SIZE * 0.05;
-            if (this.dailyPnL < -dailyLossLimit) {
-                this.logger.warn(`⚠️ Daily loss limit reached: ${this.dailyPnL.toFixed(2)}`);
+            if (this.isDailyLossLimitReached()) {
+                this.logger.warn(`⚠️ Daily loss limit reached: ${this.dailyPnL.toNumber().toFixed(2)}`);
                 return false;
             }
 
             // Check maximum drawdown (10% of peak value)
-            const maxDrawdownLimit = this.peakValue * 0.1;
-            if (this.currentDrawdown > maxDrawdownLimit) {
-                this.logger.warn(`⚠️ Maximum drawdown limit reached: ${this.currentDrawdown.toFixed(2)}`);
+            if (this.isDrawdownLimitReached()) {
+                this.logger.warn(`⚠️ Maximum drawdown limit reached: ${this.currentDrawdown.toNumber().toFixed(2)}`);
                 return false;
             }
 
@@ -64,29 +100,91 @@ export class RiskManager {
         }
     }
 
-    calculatePositionSize(opportunity: ArbitrageOpportunity): number {
+    async calculatePositionSize(opportunity: ArbitrageOpportunity): Promise<number> {
         try {
-            // Kelly Criterion for position sizing
-            const winRate = this.getWinRate();
-            const avgWin = this.getAverageWin();
-            const avgLoss = this.getAverageLoss();
-            
-            if (avgLoss === 0) return Config.MAX_POSITION_SIZE * 0.1; // Conservative 10% if no loss data
-            
-            const kellyFraction = (winRate * avgWin - (1 - winRate) * avgLoss) / avgWin;
-            const positionSize = Math.max(0, Math.min(kellyFraction, 0.25)) * Config.MAX_POSITION_SIZE; // Cap at 25%
-            
-            // Ensure minimum position size
-            const minPositionSize = Config.MAX_POSITION_SIZE * 0.01; // 1% minimum
-            return Math.max(minPositionSize, positionSize);
+            const positionSize = this.calculateKellyPositionSize();
+            const liquidityLimit = await this.calculateLiquidityLimit(opportunity);
+
+            if (liquidityLimit !== null && liquidityLimit < positionSize) {
+                this.logger.info(`💧 Position capped by liquidity: $${liquidityLimit.toFixed(2)} keeps impact under ${Config.MAX_PRICE_IMPACT}%`);
+                return liquidityLimit;
+            }
+            return positionSize;
         } catch (error) {
             this.logger.error('Error calculating position size:', error);
             return Config.MAX_POSITION_SIZE * 0.1; // Conservative fallback
         }
     }
 
-    private calculateExpectedSlippage(opportunity: ArbitrageOpportunity): number {
-        // Mock slippage calculation - replace with actual market depth analysis
+    private calculateKellyPositionSize(): number {
+        // Kelly Criterion for position sizing
+        const winRate = this.getWinRate();
+        const avgWin = this.getAverageWin();
+        const avgLoss = this.getAverageLoss();
+        
+        if (avgLoss === 0) return Config.MAX_POSITION_SIZE * 0.1; // Conservative 10% if no loss data
+        
+        const kellyFraction = (winRate * avgWin - (1 - winRate) * avgLoss) / avgWin;
+        const positionSize = Math.max(0, Math.min(kellyFraction, 0.25)) * Config.MAX_POSITION_SIZE; // Cap at 25%
+        
+        // Ensure minimum position size
+        const minPositionSize = Config.MAX_POSITION_SIZE * 0.01; // 1% minimum
+        return Math.max(minPositionSize, positionSize);
+    }
+
+    /**
+     * Largest USD size every pool on the opportunity's route can take without
+     * exceeding MAX_PRICE_IMPACT, or null when depth is unknown.
+     */
+    private async calculateLiquidityLimit(opportunity: ArbitrageOpportunity): Promise<number | null> {
+        if (!this.depthProfiler || !opportunity.route) return null;
+
+        let limit: number | null = null;
+        for (const hop of opportunity.route.hops) {
+            const curve = await this.depthProfiler.profilePool(hop.tokenIn, hop.tokenOut, hop.fee);
+            if (!curve) continue;
+
+            const capacity = this.depthProfiler.maxSizeForImpact(curve, Config.MAX_PRICE_IMPACT);
+            if (capacity.exceedsLadder) continue;
+            limit = limit === null ? capacity.notionalUsd : Math.min(limit, capacity.notionalUsd);
+        }
+        return limit;
+    }
+
+    /** First token on the opportunity whose last GalaDex price diverged too far from the reference. */
+    private findOffReferenceToken(opportunity: ArbitrageOpportunity): string | undefined {
+        if (!this.referencePrices) return undefined;
+        return this.getOpportunityTokens(opportunity).find(token => this.referencePrices!.isOffReference(token));
+    }
+
+    private getOpportunityTokens(opportunity: ArbitrageOpportunity): string[] {
+        return opportunity.route
+            ? opportunity.route.hops.flatMap(hop => [hop.tokenIn.symbol, hop.tokenOut.symbol])
+            : opportunity.token.split('/');
+    }
+
+    private async calculateExpectedSlippage(opportunity: ArbitrageOpportunity): Promise<number> {
+        // Simulate the route at this size against current pool state; past an
+        // initialized tick the active liquidity is unknown, so defer to depth curves
+        if (this.poolState && opportunity.route && opportunity.buyPrice > 0) {
+            const simulation = await this.poolState.simulateRoute(opportunity.route.hops, opportunity.volume / opportunity.buyPrice);
+            if (simulation && !simulation.crossesTick) return simulation.priceImpact / 100;
+        }
+
+        // Read each hop's impact at this size off its measured depth curve
+        if (this.depthProfiler && opportunity.route) {
+            let retained = 1;
+            let measured = false;
+            for (const hop of opportunity.route.hops) {
+                const curve = await this.depthProfiler.profilePool(hop.tokenIn, hop.tokenOut, hop.fee);
+                if (!curve) continue;
+                retained *= 1 - this.depthProfiler.impactAtSize(curve, opportunity.volume) / 100;
+                measured = true;
+            }
+            if (measured) return 1 - retained;
+        }
+
+        // Fallback when depth is unknown
         const baseSlippage = 0.001; // 0.1% base slippage
         const volumeImpact = (opportunity.volume / Config.MAX_POSITION_SIZE) * 0.005; // Up to 0.5% based on volume
         return baseSlippage + volumeImpact;
@@ -94,25 +192,27 @@ export class RiskManager {
 
     updateMetrics(order: Order, profit: number): void {
         try {
+            // profit is before network fees; the order's own fee comes off here
+            const netProfit = profit - (order.networkFeeUsd ?? 0);
             this.orders.push(order);
             this.totalTrades++;
-            this.dailyPnL += profit;
+            this.dailyPnL = this.dailyPnL.add(TokenAmount.usd(netProfit));
             
-            if (profit > 0) {
+            if (netProfit > 0) {
                 this.successfulTrades++;
             }
 
             // Update drawdown tracking
-            const currentValue = this.peakValue + this.dailyPnL;
-            if (currentValue > this.peakValue) {
+            const currentValue = this.peakValue.add(this.dailyPnL);
+            if (currentValue.gt(this.peakValue)) {
                 this.peakValue = currentValue;
-                this.currentDrawdown = 0;
+                this.currentDrawdown = TokenAmount.zero(USD_DECIMALS);
             } else {
-                this.currentDrawdown = this.peakValue - currentValue;
-                this.maxDrawdown = Math.max(this.maxDrawdown, this.currentDrawdown);
+                this.currentDrawdown = this.peakValue.sub(currentValue);
+                this.maxDrawdown = this.maxDrawdown.max(this.currentDrawdown);
             }
 
-            this.logger.info(`📊 Updated metrics: PnL: ${this.dailyPnL.toFixed(2)}, Trades: ${this.totalTrades}, Win Rate: ${this.getWinRate().toFixed(2)}%`);
+            this.logger.info(`📊 Updated metrics: PnL: ${this.dailyPnL.toNumber().toFixed(2)}, Trades: ${this.totalTrades}, Win Rate: ${this.getWinRate().toFixed(2)}%`);
         } catch (error) {
             this.logger.error('Error updating metrics:', error);
         }
@@ -121,8 +221,8 @@ export class RiskManager {
     getRiskMetrics(): RiskMetrics {
         return {
             totalExposure: this.calculateTotalExposure(),
-            dailyPnL: this.dailyPnL,
-            maxDrawdown: this.maxDrawdown,
+            dailyPnL: this.dailyPnL.toNumber(),
+            maxDrawdown: this.maxDrawdown.toNumber(),
             winRate: this.getWinRate(),
             totalTrades: this.totalTrades,
             successfulTrades: this.successfulTrades
@@ -131,7 +231,9 @@ export class RiskManager {
 
     private calculateTotalExposure(): number {
         const activeOrders = this.orders.filter(order => order.status === 'pending' || order.status === 'filled');
-        return activeOrders.reduce((total, order) => total + (order.amount * order.price), 0);
+        return activeOrders
+            .reduce((total, order) => total.add(TokenAmount.usd(order.amount * order.price)), TokenAmount.zero(USD_DECIMALS))
+            .toNumber();
     }
 
     private getWinRate(): number {
@@ -154,14 +256,21 @@ export class RiskManager {
     }
 
     resetDailyMetrics(): void {
-        this.dailyPnL = 0;
+        this.dailyPnL = TokenAmount.zero(USD_DECIMALS);
         this.logger.info('🔄 Daily metrics reset');
     }
 
     shouldStopTrading(): boolean {
-        const dailyLossLimit = Config.MAX_POSITION_SIZE * 0.05;
-        const maxDrawdownLimit = this.peakValue * 0.1;
-        
-        return this.dailyPnL < -dailyLossLimit || this.currentDrawdown > maxDrawdownLimit;
+        return this.isDailyLossLimitReached() || this.isDrawdownLimitReached();
+    }
+
+    // Daily loss limit is 5% of max position size
+    private isDailyLossLimitReached(): boolean {
+        return this.dailyPnL.lt(TokenAmount.usd(-Config.MAX_POSITION_SIZE * 0.05));
+    }
+
+    // Maximum drawdown is 10% of peak value
+    private isDrawdownLimitReached(): boolean {
+        return this.currentDrawdown.gt(this.peakValue.mul(0.1));
     }
 }
@@ -0,0 +1,196 @@
+import { FEE_TIER } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { Semaphore, mapWithConcurrency } from '../utils/concurrency';
+import { GalaToken } from './galaDexService';
+import { MarketDataProvider } from './marketDataProvider';
+import { normalizeQuote } from './normalizedQuote';
+import { TokenAmount } from '../utils/tokenAmount';
+import { TokenRegistry } from './tokenRegistry';
+import { ResilienceError, classifyError } from './resilience';
+
+export interface RouteHop {
+    tokenIn: GalaToken;
+    tokenOut: GalaToken;
+    fee: FEE_TIER;
+    amountIn: number;
+    amountOut: number;
+    priceImpact: number;
+}
+
+export interface SwapRoute {
+    hops: RouteHop[];
+    amountIn: number;
+    amountOut: number;
+    priceImpact: number; // Compounded across hops, in percent like NormalizedQuote
+    path: string;
+}
+
+interface PoolEdge {
+    from: string;
+    to: string;
+    fee: FEE_TIER;
+}
+
+/**
+ * Slots for leg quotes in flight, shared by every RouteFinder in the process.
+ * Scans fan out over tokens, pairs and then paths, each map running
+ * SCAN_CONCURRENCY at a time; only the quotes at the bottom take a slot, so
+ * the gateway never sees more than SCAN_CONCURRENCY of them at once.
+ */
+export const quoteSlots = new Semaphore(Config.SCAN_CONCURRENCY);
+
+export class RouteFinder {
+    private logger = new Logger('RouteFinder');
+    private marketData: MarketDataProvider;
+    private tokenRegistry: TokenRegistry;
+    private slots: Semaphore;
+
+    constructor(marketData: MarketDataProvider, tokenRegistry: TokenRegistry, slots: Semaphore = quoteSlots) {
+        this.marketData = marketData;
+        this.tokenRegistry = tokenRegistry;
+        this.slots = slots;
+    }
+
+    async findBestRoute(tokenIn: GalaToken, tokenOut: GalaToken, amountIn: number, maxHops: number = Config.MAX_ROUTE_HOPS): Promise<SwapRoute | null> {
+        const routes = await this.findRoutes(tokenIn, tokenOut, amountIn, maxHops);
+        return routes.length > 0 ? routes[0] : null;
+    }
+
+    /**
+     * Quotes every pool path of up to maxHops between the two tokens and
+     * returns the ones that could be quoted, best output first.
+     */
+    async findRoutes(tokenIn: GalaToken, tokenOut: GalaToken, amountIn: number, maxHops: number = Config.MAX_ROUTE_HOPS): Promise<SwapRoute[]> {
+        const paths = this.enumeratePaths(tokenIn.classKey, tokenOut.classKey, Math.min(Math.max(maxHops, 1), 3));
+        const routes = await this.quotePaths(paths, amountIn);
+        this.logger.debug(`🧭 ${tokenIn.symbol} -> ${tokenOut.symbol}: ${routes.length}/${paths.length} routes quoted`);
+        return routes;
+    }
+
+    /**
+     * Quotes every closed loop of exactly `hops` pools that starts and ends at
+     * the given token, best round-trip output first.
+     */
+    async findCycles(start: GalaToken, amountIn: number, hops: number = 3): Promise<SwapRoute[]> {
+        const paths = this.enumeratePaths(start.classKey, start.classKey, hops)
+            .filter(path => path.length === hops);
+        const cycles = await this.quotePaths(paths, amountIn);
+        this.logger.debug(`🔺 ${start.symbol}: ${cycles.length}/${paths.length} cycles quoted`);
+        return cycles;
+    }
+
+    /**
+     * Quotes one explicit sequence of legs, e.g. a buy on one fee tier followed
+     * by the reverse sell on another. Returns null if any leg cannot be quoted.
+     */
+    async quoteRoute(legs: Array<{ tokenIn: GalaToken; tokenOut: GalaToken; fee: FEE_TIER }>, amountIn: number): Promise<SwapRoute | null> {
+        const path = legs.map(leg => ({ from: leg.tokenIn.classKey, to: leg.tokenOut.classKey, fee: leg.fee }));
+        const routes = await this.quotePaths([path], amountIn);
+        return routes.length > 0 ? routes[0] : null;
+    }
+
+    private async quotePaths(paths: PoolEdge[][], amountIn: number): Promise<SwapRoute[]> {
+        const legQuotes = new Map<string, Promise<RouteHop | null>>();
+        const routes: SwapRoute[] = [];
+
+        await mapWithConcurrency(paths, Config.SCAN_CONCURRENCY, async path => {
+            const hops: RouteHop[] = [];
+            let legAmount = amountIn;
+
+            for (const edge of path) {
+                // Paths share prefixes, so identical legs are only quoted once per search
+                const key = `${edge.from}>${edge.to}@${edge.fee}:${legAmount}`;
+                if (!legQuotes.has(key)) {
+                    legQuotes.set(key, this.quoteLeg(edge, legAmount));
+                }
+                const hop = await legQuotes.get(key)!;
+                if (!hop) break;
+
+                hops.push(hop);
+                legAmount = hop.amountOut;
+            }
+
+            if (hops.length === path.length) {
+                routes.push(this.buildRoute(hops));
+            }
+        });
+
+        routes.sort((a, b) => b.amountOut - a.amountOut);
+        return routes;
+    }
+
+    private enumeratePaths(from: string, to: string, maxHops: number): PoolEdge[][] {
+        const edges = new Map<string, PoolEdge[]>();
+        for (const pool of this.tokenRegistry.getPools()) {
+            for (const [a, b] of [[pool.token0, pool.token1], [pool.token1, pool.token0]]) {
+                if (!edges.has(a)) edges.set(a, []);
+                edges.get(a)!.push({ from: a, to: b, fee: pool.fee });
+            }
+        }
+
+        const paths: PoolEdge[][] = [];
+        const walk = (current: string, visited: Set<string>, path: PoolEdge[]) => {
+            if (path.length > 0 && current === to) {
+                paths.push([...path]);
+                return;
+            }
+            if (path.length >= maxHops) return;
+
+            for (const edge of edges.get(current) || []) {
+                // The destination may already be visited when searching for a cycle back to the start
+                if (visited.has(edge.to) && edge.to !== to) continue;
+                visited.add(edge.to);
+                path.push(edge);
+                walk(edge.to, visited, path);
+                path.pop();
+                visited.delete(edge.to);
+            }
+        };
+
+        walk(from, new Set([from]), []);
+        return paths;
+    }
+
+    private async quoteLeg(edge: PoolEdge, amountIn: number): Promise<RouteHop | null> {
+        const tokenIn = this.tokenRegistry.getToken(edge.from);
+        const tokenOut = this.tokenRegistry.getToken(edge.to);
+        if (!tokenIn || !tokenOut) return null;
+
+        try {
+            const exactIn = TokenAmount.fromDecimal(amountIn, tokenIn.decimals);
+            const quote = normalizeQuote(tokenIn, tokenOut, exactIn,
+                await this.slots.run(() => this.marketData.quoteExactInput(edge.from, edge.to, exactIn.toString(), edge.fee)));
+            if (!quote.outAmount.isPositive()) return null;
+
+            return {
+                tokenIn,
+                tokenOut,
+                fee: edge.fee,
+                amountIn,
+                amountOut: quote.outAmount.toNumber(),
+                priceImpact: quote.priceImpact
+            };
+        } catch (error) {
+            // Missing pools and quotes skipped by an open circuit are expected; other failures hide a leg
+            const kind = classifyError(error);
+            if (kind === 'pool-missing' || (error instanceof ResilienceError && error.circuitOpen)) {
+                this.logger.debug(`No quote for ${tokenIn.symbol} -> ${tokenOut.symbol} @ ${edge.fee}:`, (error as any).message);
+            } else {
+                this.logger.warn(`Quote failed for ${tokenIn.symbol} -> ${tokenOut.symbol} @ ${edge.fee} (${kind}):`, (error as any).message);
+            }
+            return null;
+        }
+    }
+
+    private buildRoute(hops: RouteHop[]): SwapRoute {
+        const retained = hops.reduce((product, hop) => product * (1 - hop.priceImpact / 100), 1);
+        return {
+            hops,
+            amountIn: hops[0].amountIn,
+            amountOut: hops[hops.length - 1].amountOut,
+            priceImpact: (1 - retained) * 100,
+            path: [hops[0].tokenIn.symbol, ...hops.map(hop => hop.tokenOut.symbol)].join('→')
+        };
+    }
+}
@@ -0,0 +1,63 @@
+import BigNumber from 'bignumber.js';
+import { FEE_TIER, compareTokens } from '@gala-chain/gswap-sdk';
+import { TokenAmount } from '../utils/tokenAmount';
+import { GalaToken } from './galaDexService';
+
+/**
+ * What a confirmed swap actually did, as opposed to the quote and slippage
+ * bounds it was submitted with. price is tokenOut per tokenIn; feeAmount is
+ * the pool fee, charged in tokenIn.
+ */
+export interface SwapFill {
+    tokenIn: GalaToken;
+    tokenOut: GalaToken;
+    amountIn: TokenAmount;
+    amountOut: TokenAmount;
+    feeAmount: TokenAmount;
+    feeEstimated: boolean; // True when the chain didn't report the fee and it was derived from the fee tier
+    price: number;
+}
+
+/**
+ * Reads a confirmed Swap's Data. The chain reports pool-side amounts: amount0
+ * and amount1 in canonical token order, positive into the pool (what we paid)
+ * and negative out of it (what we received). Returns null when the amounts
+ * are missing, e.g. a transaction the SDK resolved without an event.
+ */
+export function parseSwapFill(data: Record<string, unknown> | undefined, tokenIn: GalaToken, tokenOut: GalaToken, fee: FEE_TIER): SwapFill | null {
+    if (!data || data.amount0 === undefined || data.amount1 === undefined) return null;
+
+    const tokenInIsToken0 = compareTokens(tokenIn.classKey, tokenOut.classKey) < 0;
+    const amount0 = new BigNumber(String(data.amount0));
+    const amount1 = new BigNumber(String(data.amount1));
+    const [rawIn, rawOut] = tokenInIsToken0 ? [amount0, amount1] : [amount1, amount0];
+    if (!rawIn.isFinite() || !rawOut.isFinite()) return null;
+
+    const amountIn = TokenAmount.fromDecimal(rawIn.abs(), tokenIn.decimals, 'up');
+    const amountOut = TokenAmount.fromDecimal(rawOut.abs(), tokenOut.decimals);
+    const reportedFee = data.feeAmount !== undefined ? new BigNumber(String(data.feeAmount)) : undefined;
+    const feeEstimated = !reportedFee || !reportedFee.isFinite();
+    const feeAmount = feeEstimated
+        ? amountIn.mul(fee / 1_000_000, 'up')
+        : TokenAmount.fromDecimal(reportedFee!.abs(), tokenIn.decimals, 'up');
+
+    return {
+        tokenIn,
+        tokenOut,
+        amountIn,
+        amountOut,
+        feeAmount,
+        feeEstimated,
+        price: amountIn.isPositive() ? amountOut.ratio(amountIn).toNumber() : 0
+    };
+}
+
+/**
+ * The GALA network fee a completed transaction's Data says it was charged, or
+ * undefined when it doesn't report one and the fee can only be estimated.
+ */
+export function parseNetworkFeeGala(data: Record<string, unknown> | undefined): number | undefined {
+    if (data?.networkFee === undefined) return undefined;
+    const fee = new BigNumber(String(data.networkFee)).abs();
+    return fee.isFinite() ? fee.toNumber() : undefined;
+}
@@ -0,0 +1,167 @@
+import { PendingTransaction } from '@gala-chain/gswap-sdk';
+import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { GalaToken } from './galaDexService';
+import { TrackedTransaction, isFinalState, transactionTracker } from './transactionTracker';
+
+export interface QueuedSpend {
+    token: GalaToken;
+    amount: TokenAmount; // The most the transaction can take: exactIn, amountInMaximum, a deposit or the network fee
+}
+
+export interface QueuedTransaction {
+    label: string;
+    spends: QueuedSpend[]; // Spends of the same token add up
+    getBalance: (token: GalaToken) => Promise<TokenAmount>;
+    submit: () => Promise<PendingTransaction>;
+}
+
+export interface SwapQueueStats {
+    wallet: string;
+    depth: number; // Swaps waiting for their turn
+    busy: boolean;
+    submitted: number;
+    rejected: number; // Refused before submission because the funds weren't there
+    inFlight: number; // Submitted transactions whose spend is still held back from the balance
+    averageWaitMs: number;
+    maxWaitMs: number;
+}
+
+export class InsufficientBalanceError extends Error {
+    constructor(label: string, token: GalaToken, needed: TokenAmount, available: TokenAmount) {
+        super(`Not enough ${token.symbol} for ${label}: needs ${needed}, ${available} available`);
+        this.name = 'InsufficientBalanceError';
+    }
+}
+
+// Below this, a wait is routine and not worth a log line
+const WAIT_LOG_THRESHOLD_MS = 1000;
+
+/**
+ * Lets one transaction at a time be submitted from a wallet, in arrival
+ * order, so swaps from the scan loop and enhanced trading and liquidity
+ * changes can't race each other. Just before each submission the wallet
+ * balance of every token it spends is read, less whatever transactions
+ * already submitted may still spend, and it is refused if that can't cover
+ * it. The hold on those funds lifts only once the chain confirms or fails
+ * the transaction; one that expired unanswered may still execute, so its
+ * hold stays until the tracker gives up on it. Callers never wait on
+ * confirmations here.
+ */
+export class SwapQueue {
+    private logger = new Logger('SwapQueue');
+    private readonly wallet: string;
+    private tail: Promise<void> = Promise.resolve();
+    private depth = 0;
+    private busy = false;
+    private inFlight: Map<string, QueuedSpend[]> = new Map();
+    private counts = { submitted: 0, rejected: 0 };
+    private totalWaitMs = 0;
+    private maxWaitMs = 0;
+    private turns = 0;
+
+    constructor(wallet: string) {
+        this.wallet = wallet;
+        transactionTracker.on('change', (tx: TrackedTransaction) => {
+            // Once abandoned nothing will settle it, so its hold would never lift
+            if (isFinalState(tx.state) || tx.state === 'abandoned') this.inFlight.delete(tx.txId);
+        });
+    }
+
+    async submit(transaction: QueuedTransaction): Promise<PendingTransaction> {
+        const enqueuedAt = Date.now();
+        const ahead = this.depth + (this.busy ? 1 : 0);
+        this.depth++;
+
+        const turn = this.tail;
+        let done!: () => void;
+        this.tail = new Promise<void>(resolve => { done = resolve; });
+        await turn;
+
+        this.depth--;
+        this.busy = true;
+        this.recordWait(transaction.label, Date.now() - enqueuedAt, ahead);
+
+        try {
+            const spends = combineSpends(transaction.spends);
+            for (const spend of spends) {
+                const balance = await transaction.getBalance(spend.token);
+                const held = this.heldBack(spend.token, balance.decimals);
+                const available = held.gt(balance) ? TokenAmount.zero(balance.decimals) : balance.sub(held);
+                if (available.lt(spend.amount)) {
+                    this.counts.rejected++;
+                    throw new InsufficientBalanceError(transaction.label, spend.token, spend.amount, available);
+                }
+            }
+
+            const pending = await transaction.submit();
+            this.counts.submitted++;
+            // The tracker may already have settled it if the bundler answered first
+            const tracked = transactionTracker.get(pending.transactionId);
+            if (!tracked || !isFinalState(tracked.state)) {
+                this.inFlight.set(pending.transactionId, spends);
+            }
+            return pending;
+        } finally {
+            this.busy = false;
+            done();
+        }
+    }
+
+    getStats(): SwapQueueStats {
+        return {
+            wallet: this.wallet,
+            depth: this.depth,
+            busy: this.busy,
+            ...this.counts,
+            inFlight: this.inFlight.size,
+            averageWaitMs: this.turns > 0 ? this.totalWaitMs / this.turns : 0,
+            maxWaitMs: this.maxWaitMs
+        };
+    }
+
+    private heldBack(token: GalaToken, decimals: number): TokenAmount {
+        let held = TokenAmount.zero(decimals);
+        for (const spends of this.inFlight.values()) {
+            for (const spend of spends) {
+                if (spend.token.classKey === token.classKey) held = held.add(spend.amount);
+            }
+        }
+        return held;
+    }
+
+    private recordWait(label: string, waitMs: number, ahead: number): void {
+        this.turns++;
+        this.totalWaitMs += waitMs;
+        this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+        if (waitMs >= WAIT_LOG_THRESHOLD_MS) {
+            this.logger.info(`⏳ ${label} waited ${waitMs}ms behind ${ahead} swap(s) from ${this.wallet}`);
+        }
+    }
+}
+
+/** One spend per token, so a swap out of GALA is checked for its input and network fee together. */
+function combineSpends(spends: QueuedSpend[]): QueuedSpend[] {
+    const byToken: Map<string, QueuedSpend> = new Map();
+    for (const spend of spends) {
+        if (!spend.amount.isPositive()) continue;
+        const existing = byToken.get(spend.token.classKey);
+        byToken.set(spend.token.classKey, existing ? { token: spend.token, amount: existing.amount.add(spend.amount) } : spend);
+    }
+    return Array.from(byToken.values());
+}
+
+const queues: Map<string, SwapQueue> = new Map();
+
+/**
+ * The queue for a wallet. Shared by every GalaDexService in the process,
+ * since the bot and the trading service each build their own.
+ */
+export function swapQueueFor(wallet: string): SwapQueue {
+    let queue = queues.get(wallet);
+    if (!queue) {
+        queue = new SwapQueue(wallet);
+        queues.set(wallet, queue);
+    }
+    return queue;
+}
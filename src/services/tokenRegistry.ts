@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { FEE_TIER, GalaChainTokenClassKey } from '@gala-chain/gswap-sdk';
+import { Config } from '../config';
+import { Logger } from '../utils/logger';
+import { GalaToken } from './galaDexService';
+import { gatewayResilience } from './resilience';
+
+export interface GalaPool {
+    token0: string;
+    token1: string;
+    fee: FEE_TIER;
+    poolHash?: string;
+    tvl?: number;
+}
+
+export interface TokenRegistryFile {
+    tokens: Array<Omit<GalaToken, 'classKey'> & { classKey?: string }>;
+    pools: GalaPool[];
+}
+
+export type TokenRegistrySource = 'backend' | 'file';
+
+const FEE_TIERS: FEE_TIER[] = [500, 3000, 10000];
+
+export function parseClassKey(classKey: string): GalaChainTokenClassKey {
+    const [collection, category, type, additionalKey] = classKey.split(/[|$]/);
+    return { collection, category, type, additionalKey };
+}
+
+export function stringifyClassKey(tokenClassKey: GalaChainTokenClassKey): string {
+    return `${tokenClassKey.collection}|${tokenClassKey.category}|${tokenClassKey.type}|${tokenClassKey.additionalKey}`;
+}
+
+export function tokenFromClassKey(classKey: string, decimals: number, name?: string): GalaToken {
+    const tokenClassKey = parseClassKey(classKey);
+    return {
+        symbol: tokenClassKey.collection,
+        classKey: stringifyClassKey(tokenClassKey),
+        tokenClassKey,
+        decimals,
+        name: name || tokenClassKey.collection
+    };
+}
+
+/**
+ * Source of truth for which tokens and pools exist on GalaDex. Pools come from
+ * the dex backend or a local registry file; the local file also supplies token
+ * metadata (decimals, names) that the backend listing leaves out.
+ */
+export class TokenRegistry {
+    private logger = new Logger('TokenRegistry');
+    private source: TokenRegistrySource;
+    private dexBackendBaseUrl: string;
+    private registryFilePath: string;
+    private tokens: Map<string, GalaToken> = new Map();
+    private pools: GalaPool[] = [];
+    private lastUpdated = 0;
+    private refreshInterval?: NodeJS.Timeout;
+
+    constructor(dexBackendBaseUrl: string, source: TokenRegistrySource = Config.TOKEN_REGISTRY_SOURCE as TokenRegistrySource) {
+        this.source = source;
+        this.dexBackendBaseUrl = dexBackendBaseUrl;
+        this.registryFilePath = path.resolve(process.cwd(), Config.TOKEN_REGISTRY_FILE);
+    }
+
+    async load(): Promise<void> {
+        const fileRegistry = this.readRegistryFile();
+        const tokens = new Map<string, GalaToken>();
+        for (const token of fileRegistry.tokens) {
+            const classKey = token.classKey || stringifyClassKey(token.tokenClassKey);
+            tokens.set(classKey, { ...token, classKey });
+        }
+
+        let pools = fileRegistry.pools;
+        if (this.source === 'backend') {
+            let backend: Awaited<ReturnType<TokenRegistry['fetchBackendPools']>>;
+            try {
+                backend = await this.fetchBackendPools();
+            } catch (error) {
+                // A failed refresh keeps the previous list; a failed first load falls back to the file
+                if (this.lastUpdated > 0) throw error;
+                this.logger.warn(`Dex backend pool listing unavailable, using ${Config.TOKEN_REGISTRY_FILE}:`, (error as any).message);
+                backend = { pools: fileRegistry.pools, tokens: [] };
+            }
+            pools = backend.pools;
+            for (const token of backend.tokens) {
+                const known = tokens.get(token.classKey);
+                if (known) continue;
+                if (token.decimals === undefined) {
+                    this.logger.warn(`⚠️ No decimals known for ${token.symbol} (${token.classKey}), add it to ${Config.TOKEN_REGISTRY_FILE} to trade it`);
+                    continue;
+                }
+                tokens.set(token.classKey, token as GalaToken);
+            }
+        }
+
+        // Only keep pools whose tokens we can describe, and tokens that have a pool
+        this.pools = pools.filter(pool => tokens.has(pool.token0) && tokens.has(pool.token1));
+        const pooled = new Set(this.pools.flatMap(pool => [pool.token0, pool.token1]));
+        this.tokens = new Map(Array.from(tokens.entries()).filter(([classKey]) => pooled.has(classKey)));
+        this.lastUpdated = Date.now();
+
+        this.logger.info(`📚 Registry loaded from ${this.source}: ${this.tokens.size} tokens, ${this.pools.length} pools`);
+    }
+
+    startAutoRefresh(intervalMs: number, onRefresh: () => void): void {
+        this.stopAutoRefresh();
+        if (intervalMs <= 0) return;
+
+        this.refreshInterval = setInterval(async () => {
+            try {
+                await this.load();
+                onRefresh();
+            } catch (error) {
+                this.logger.warn('Token registry refresh failed, keeping previous list:', (error as any).message);
+            }
+        }, intervalMs);
+    }
+
+    stopAutoRefresh(): void {
+        if (this.refreshInterval) {
+            clearInterval(this.refreshInterval);
+            this.refreshInterval = undefined;
+        }
+    }
+
+    getTokens(): GalaToken[] {
+        return Array.from(this.tokens.values());
+    }
+
+    getToken(symbolOrClassKey: string): GalaToken | undefined {
+        return this.tokens.get(symbolOrClassKey) ||
+            this.getTokens().find(token => token.symbol === symbolOrClassKey);
+    }
+
+    getPools(): GalaPool[] {
+        return [...this.pools];
+    }
+
+    getPoolsForPair(tokenA: string, tokenB: string): GalaPool[] {
+        return this.pools.filter(pool =>
+            (pool.token0 === tokenA && pool.token1 === tokenB) ||
+            (pool.token0 === tokenB && pool.token1 === tokenA)
+        );
+    }
+
+    getLastUpdated(): number {
+        return this.lastUpdated;
+    }
+
+    private readRegistryFile(): TokenRegistryFile {
+        if (!fs.existsSync(this.registryFilePath)) {
+            if (this.source === 'file') {
+                throw new Error(`Token registry file not found: ${this.registryFilePath}`);
+            }
+            return { tokens: [], pools: [] };
+        }
+        return JSON.parse(fs.readFileSync(this.registryFilePath, 'utf8'));
+    }
+
+    private async fetchBackendPools(): Promise<{ pools: GalaPool[]; tokens: Array<Omit<GalaToken, 'decimals'> & { decimals?: number }> }> {
+        const pools: GalaPool[] = [];
+        const tokens = new Map<string, Omit<GalaToken, 'decimals'> & { decimals?: number }>();
+        const limit = 100;
+
+        for (let page = 1; page <= 50; page++) {
+            const response = await gatewayResilience.call('pools', () =>
+                axios.get(`${this.dexBackendBaseUrl}${Config.TOKEN_REGISTRY_POOLS_PATH}`, {
+                    params: { page, limit },
+                    timeout: 15000
+                })
+            );
+            const rawPools: any[] = response.data?.data?.pools || response.data?.pools || [];
+
+            for (const raw of rawPools) {
+                const pool = this.parseBackendPool(raw);
+                if (!pool) continue;
+                pools.push(pool);
+
+                for (const side of ['0', '1']) {
+                    const classKey = side === '0' ? pool.token0 : pool.token1;
+                    if (tokens.has(classKey)) continue;
+                    const decimals = raw[`token${side}Decimals`];
+                    tokens.set(classKey, {
+                        symbol: raw[`token${side}Symbol`] || parseClassKey(classKey).collection,
+                        classKey,
+                        tokenClassKey: parseClassKey(classKey),
+                        decimals: decimals !== undefined ? parseInt(decimals, 10) : undefined,
+                        name: raw[`token${side}Name`] || raw[`token${side}Symbol`] || parseClassKey(classKey).collection
+                    });
+                }
+            }
+
+            if (rawPools.length < limit) break;
+        }
+
+        return { pools, tokens: Array.from(tokens.values()) };
+    }
+
+    private parseBackendPool(raw: any): GalaPool | null {
+        const token0 = raw.token0ClassKey ? stringifyClassKey(raw.token0ClassKey) : raw.token0;
+        const token1 = raw.token1ClassKey ? stringifyClassKey(raw.token1ClassKey) : raw.token1;
+        if (typeof token0 !== 'string' || typeof token1 !== 'string') return null;
+
+        // The explore endpoint reports fees either as a tier (500) or as a percentage (0.05)
+        let fee = Number(raw.fee);
+        if (fee > 0 && fee < 100) fee = Math.round(fee * 10000);
+        if (!FEE_TIERS.includes(fee)) return null;
+
+        return {
+            token0: stringifyClassKey(parseClassKey(token0)),
+            token1: stringifyClassKey(parseClassKey(token1)),
+            fee,
+            poolHash: raw.poolHash,
+            tvl: raw.tvl !== undefined ? parseFloat(raw.tvl) : undefined
+        };
+    }
+}
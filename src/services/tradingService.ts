@@ -1,6 +1,9 @@
 import { Config } from '../config';
 import { Logger } from '../utils/logger';
-import { GalaDexService, GalaToken, GalaPriceData, GalaArbitrageOpportunity, GalaSwapResult } from './galaDexService';
+import { GalaDexService, GalaToken, GalaPriceData, GalaArbitrageOpportunity, GalaArbitrageKind, GalaScanMetrics, GalaSwapResult } from './galaDexService';
+import { SwapRoute } from './routeFinder';
+import { SwapFill } from './swapFill';
+import { TrackedTransaction, isFinalState, transactionTracker } from './transactionTracker';
 
 export interface TokenInfo {
     symbol: string;
@@ -26,17 +29,31 @@ export interface ArbitrageOpportunity {
     profitPercentage: number;
     volume: number;
     timestamp: number;
+    kind?: GalaArbitrageKind;
+    route?: SwapRoute;
+    networkFeeUsd?: number; // Estimated GalaChain fees, already taken off profit
 }
 
 export interface Order {
     id: string;
     token: string;
     side: 'buy' | 'sell';
-    amount: number;
-    price: number;
+    amount: number; // Of the token spent; the quoted amount until the fill is known
+    price: number; // USD per token spent; once filled, the USD value received per token spent
     status: 'pending' | 'filled' | 'cancelled' | 'failed';
     timestamp: number;
     txHash?: string;
+    grossProfitUsd?: number; // From the confirmed fill, before network fees; unset when the chain didn't report one
+    networkFeeUsd?: number; // GalaChain fees for the order's transactions, priced when it executed
+    networkFeeEstimated?: boolean; // NETWORK_FEE_GALA per transaction rather than what the chain reported charging
+}
+
+// What an order was expected to do, to measure its fill against
+interface OrderQuote {
+    usdPerTokenIn: number;
+    rate: number; // Quoted tokenOut per tokenIn
+    grossProfitUsd: number; // Expected profit before network fees
+    roundTrip: boolean; // Starts and ends in the same token
 }
 
 export class TradingService {
@@ -45,9 +62,12 @@ export class TradingService {
     private supportedTokens: TokenInfo[] = [];
     private priceData: Map<string, PriceData[]> = new Map();
     private orders: Order[] = [];
+    private settledListeners: Array<(order: Order) => void> = [];
+    private quotes: Map<string, OrderQuote> = new Map(); // Of orders awaiting confirmation
 
     constructor() {
         this.galaDexService = new GalaDexService();
+        transactionTracker.on('change', (tx: TrackedTransaction) => this.handleTransactionUpdate(tx));
     }
 
     async initialize(): Promise<void> {
@@ -108,7 +128,7 @@ export class TradingService {
         try {
             const galaOpportunities = await this.galaDexService.findArbitrageOpportunities();
             const opportunities: ArbitrageOpportunity[] = galaOpportunities.map(opp => ({
-                token: `${opp.tokenIn.symbol}/${opp.tokenOut.symbol}`,
+                token: opp.kind === 'triangular' && opp.route ? opp.route.path : `${opp.tokenIn.symbol}/${opp.tokenOut.symbol}`,
                 buyExchange: 'galadex',
                 sellExchange: 'galadex',
                 buyPrice: opp.buyPrice,
@@ -116,7 +136,10 @@ export class TradingService {
                 profit: opp.profit,
                 profitPercentage: opp.profitPercentage,
                 volume: opp.volume,
-                timestamp: opp.timestamp
+                timestamp: opp.timestamp,
+                kind: opp.kind,
+                route: opp.route,
+                networkFeeUsd: opp.networkFeeUsd
             }));
             
             if (opportunities.length > 0) {
@@ -158,20 +181,41 @@ export class TradingService {
                 return null;
             }
             
-            // Create order record
+            // Create order record; a swap still awaiting confirmation stays pending until the tracker settles it
             const order: Order = {
                 id: swapResult.transactionHash,
                 token: opportunity.token,
                 side: 'buy',
                 amount: parseFloat(swapResult.amountIn),
                 price: opportunity.buyPrice,
-                status: 'filled',
+                status: swapResult.status === 'submitted' ? 'pending' : 'filled',
                 timestamp: swapResult.timestamp,
-                txHash: swapResult.transactionHash
+                txHash: swapResult.transactionHash,
+                networkFeeUsd: swapResult.networkFee?.usd,
+                networkFeeEstimated: swapResult.networkFee?.estimated
             };
             
             this.orders.push(order);
-            this.logger.info(`✅ Order executed: ${order.id}`);
+
+            const route = galaOpportunity.route;
+            const quote: OrderQuote = {
+                usdPerTokenIn: opportunity.buyPrice,
+                rate: swapResult.price ?? (route && route.amountIn > 0 ? route.amountOut / route.amountIn : 0),
+                grossProfitUsd: opportunity.profit + (opportunity.networkFeeUsd ?? 0),
+                roundTrip: galaOpportunity.tokenIn.classKey === galaOpportunity.tokenOut.classKey
+            };
+            const fills = swapResult.hopFills ?? (swapResult.fill ? [swapResult.fill] : undefined);
+            if (order.status === 'pending') {
+                this.quotes.set(order.id, quote);
+            } else if (fills) {
+                this.applyFill(order, fills, quote);
+            }
+
+            // The confirmation can beat the submit call back
+            const tracked = transactionTracker.get(order.id);
+            if (order.status === 'pending' && tracked) this.handleTransactionUpdate(tracked);
+
+            this.logger.info(order.status === 'pending' ? `📤 Order submitted: ${order.id}` : `✅ Order executed: ${order.id}`);
             return order;
         } catch (error) {
             this.logger.error('Failed to execute order:', error);
@@ -181,6 +225,23 @@ export class TradingService {
 
     private async convertToGalaOpportunity(opportunity: ArbitrageOpportunity): Promise<GalaArbitrageOpportunity | null> {
         try {
+            if (opportunity.route) {
+                const route = opportunity.route;
+                return {
+                    kind: opportunity.kind || 'fee-tier',
+                    tokenIn: route.hops[0].tokenIn,
+                    tokenOut: route.hops[route.hops.length - 1].tokenOut,
+                    buyPrice: opportunity.buyPrice,
+                    sellPrice: opportunity.sellPrice,
+                    profit: opportunity.profit,
+                    profitPercentage: opportunity.profitPercentage,
+                    volume: opportunity.volume,
+                    feeTier: route.hops[0].fee,
+                    timestamp: opportunity.timestamp,
+                    route
+                };
+            }
+
             const tokens = this.galaDexService.getSupportedTokens();
             const [tokenInSymbol, tokenOutSymbol] = opportunity.token.split('/');
             
@@ -192,6 +253,7 @@ export class TradingService {
             }
             
             return {
+                kind: opportunity.kind || 'fee-tier',
                 tokenIn,
                 tokenOut,
                 buyPrice: opportunity.buyPrice,
@@ -217,12 +279,77 @@ export class TradingService {
             price: opportunity.buyPrice,
             status: 'filled',
             timestamp: Date.now(),
-            txHash: `0x${Math.random().toString(16).substr(2, 64)}`
+            txHash: `0x${Math.random().toString(16).substr(2, 64)}`,
+            networkFeeUsd: (await this.galaDexService.estimateNetworkFee(opportunity.route?.hops.length ?? 1)).usd,
+            networkFeeEstimated: true
         };
         
         return order;
     }
 
+    stop(): void {
+        this.galaDexService.stopTokenRefresh();
+    }
+
+    getLastScanMetrics(): GalaScanMetrics | undefined {
+        return this.galaDexService.getLastScanMetrics();
+    }
+
+    /** Called when a pending order's transaction is confirmed or fails. */
+    onOrderSettled(listener: (order: Order) => void): void {
+        this.settledListeners.push(listener);
+    }
+
+    private handleTransactionUpdate(tx: TrackedTransaction): void {
+        // Expired swaps stay open: a late answer from the chain can still settle them
+        if (!isFinalState(tx.state)) return;
+        const order = this.orders.find(o => o.txHash === tx.txId && o.status === 'pending');
+        if (!order) return;
+
+        order.status = tx.state === 'confirmed' ? 'filled' : 'failed';
+        if (tx.transactionHash) order.txHash = tx.transactionHash;
+        const quote = this.quotes.get(order.id);
+        this.quotes.delete(order.id);
+        if (order.status === 'filled' && quote) {
+            if (tx.fill) {
+                this.applyFill(order, [tx.fill], quote);
+            } else {
+                this.logger.warn(`No fill reported for ${tx.txId}, booking order ${order.id} at the quoted price`);
+            }
+        }
+        const charged = this.galaDexService.reportedNetworkFee([tx.data]);
+        if (charged) {
+            order.networkFeeUsd = charged.usd;
+            order.networkFeeEstimated = false;
+        }
+        for (const listener of this.settledListeners) {
+            listener(order);
+        }
+    }
+
+    /**
+     * Replaces the quoted amount and price with what the chain executed, one
+     * fill per hop. A round trip's profit is what came back less what went in;
+     * a one-way swap's moves from the quote by how far its rate landed from
+     * the quoted one.
+     */
+    private applyFill(order: Order, fills: SwapFill[], quote: OrderQuote): void {
+        const amountIn = fills[0].amountIn.toNumber();
+        const amountOut = fills[fills.length - 1].amountOut.toNumber();
+        if (!(amountIn > 0)) return;
+
+        const rate = amountOut / amountIn;
+        order.amount = amountIn;
+        if (quote.roundTrip) {
+            order.price = quote.usdPerTokenIn * rate;
+            order.grossProfitUsd = (amountOut - amountIn) * quote.usdPerTokenIn;
+        } else if (quote.rate > 0) {
+            const ratio = rate / quote.rate;
+            order.price = quote.usdPerTokenIn * ratio;
+            order.grossProfitUsd = quote.grossProfitUsd + (ratio - 1) * amountIn * quote.usdPerTokenIn;
+        }
+    }
+
     getOrders(): Order[] {
         return [...this.orders];
     }
@@ -0,0 +1,250 @@
+import { EventEmitter } from 'events';
+import { BundlerResponse, FEE_TIER, TradeEventEmitter } from '@gala-chain/gswap-sdk';
+import { Logger } from '../utils/logger';
+import { GalaToken } from './galaDexService';
+import { SwapFill, parseSwapFill } from './swapFill';
+
+/**
+ * submitted: accepted by the bundler, waiting for its event.
+ * expired: nothing heard within the wait timeout. The outcome is unknown, since
+ * the transaction may still be bundled, so a late event can still settle it.
+ * confirmed, failed: the chain's answer; final.
+ * abandoned: expired and no longer listened for. The outcome is still unknown,
+ * but nothing will move it on from here.
+ */
+export type TransactionState = 'submitted' | 'expired' | 'confirmed' | 'failed' | 'abandoned';
+
+/** Whether the chain has answered, so the transaction can no longer change. */
+export function isFinalState(state: TransactionState): boolean {
+    return state === 'confirmed' || state === 'failed';
+}
+
+export interface TrackedSwap {
+    tokenIn: GalaToken;
+    tokenOut: GalaToken;
+    fee: FEE_TIER;
+}
+
+export interface TrackedTransaction {
+    txId: string;
+    label: string;
+    state: TransactionState;
+    submittedAt: number;
+    settledAt?: number;
+    transactionHash?: string;
+    data?: Record<string, unknown>; // Swap output from the chain once confirmed
+    swap?: TrackedSwap;
+    fill?: SwapFill; // Parsed from data for swaps, when the chain reported amounts
+    error?: string;
+}
+
+export interface TransactionTrackerStats {
+    submitted: number;
+    confirmed: number;
+    failed: number;
+    abandoned: number; // Given up on after expiring, outcome unknown
+    pending: number;
+    expired: number; // Past the wait timeout and still unanswered
+    averageConfirmationMs: number;
+}
+
+// Events for transactions we haven't been told about yet, in case the bundler
+// answers before the submit call returns
+const EARLY_EVENT_TTL_MS = 60000;
+const MAX_EARLY_EVENTS = 500;
+const MAX_SETTLED = 1000;
+// How long an expired transaction is still listened for before it is given up on
+export const EXPIRED_RETENTION_MS = 10 * 60000;
+
+/**
+ * Follows submitted transactions on the bundler's event socket and moves each
+ * one from submitted to confirmed or failed, without anyone blocking on it.
+ * One that goes unanswered past its timeout is only marked expired, never
+ * failed, since it may still execute.
+ * Every state change is emitted twice: under the state's own name and as
+ * 'change', so listeners can pick either.
+ */
+export class TransactionTracker extends EventEmitter {
+    private logger = new Logger('TransactionTracker');
+    private pending: Map<string, TrackedTransaction> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    private settled: TrackedTransaction[] = [];
+    private earlyEvents: Map<string, { response: BundlerResponse; receivedAt: number }> = new Map();
+    private socket?: TradeEventEmitter;
+    private counts = { submitted: 0, confirmed: 0, failed: 0, abandoned: 0 };
+    private totalConfirmationMs = 0;
+    private readonly handleEvent = (txId: string, response: BundlerResponse) => this.onSocketEvent(txId, response);
+
+    /** Listens to a connected event socket; replaces any socket attached before. */
+    attach(socket: TradeEventEmitter): void {
+        if (this.socket === socket) return;
+        this.socket?.off('transaction', this.handleEvent);
+        this.socket = socket;
+        socket.on('transaction', this.handleEvent);
+    }
+
+    detach(): void {
+        this.socket?.off('transaction', this.handleEvent);
+        this.socket = undefined;
+    }
+
+    isAttached(): boolean {
+        return this.socket !== undefined && this.socket.isConnected();
+    }
+
+    /**
+     * Starts following a submitted transaction. If nothing is heard within
+     * timeoutMs, matching the SDK's own wait timeout, it is marked expired and
+     * listened for a while longer.
+     */
+    track(txId: string, label: string, timeoutMs: number, swap?: TrackedSwap): TrackedTransaction {
+        const tx: TrackedTransaction = { txId, label, state: 'submitted', submittedAt: Date.now(), swap };
+        this.pending.set(txId, tx);
+        this.counts.submitted++;
+        this.publish(tx);
+
+        const early = this.earlyEvents.get(txId);
+        if (early) {
+            this.earlyEvents.delete(txId);
+            this.settle(tx, early.response);
+            return tx;
+        }
+
+        this.timers.set(txId, setTimeout(() => this.expire(tx, timeoutMs), timeoutMs));
+        return tx;
+    }
+
+    /**
+     * Resolves once the chain answers, for the few callers that must wait. After
+     * timeoutMs it resolves with the transaction as it stands, still submitted
+     * or expired, so callers can tell an unknown outcome from a failure.
+     */
+    waitFor(txId: string, timeoutMs: number): Promise<TrackedTransaction | undefined> {
+        const known = this.get(txId);
+        if (known && isFinalState(known.state)) return Promise.resolve({ ...known });
+
+        return new Promise(resolve => {
+            const finish = (tx: TrackedTransaction | undefined) => {
+                clearTimeout(timer);
+                this.off('change', listener);
+                resolve(tx);
+            };
+            const listener = (tx: TrackedTransaction) => {
+                if (tx.txId === txId && isFinalState(tx.state)) finish(tx);
+            };
+            const timer = setTimeout(() => {
+                const current = this.get(txId);
+                finish(current && { ...current });
+            }, timeoutMs);
+            this.on('change', listener);
+        });
+    }
+
+    get(txId: string): TrackedTransaction | undefined {
+        return this.pending.get(txId) ?? this.settled.find(tx => tx.txId === txId);
+    }
+
+    getPending(): TrackedTransaction[] {
+        return Array.from(this.pending.values());
+    }
+
+    getStats(): TransactionTrackerStats {
+        const expired = this.getPending().filter(tx => tx.state === 'expired').length;
+        return {
+            ...this.counts,
+            pending: this.pending.size - expired,
+            expired,
+            averageConfirmationMs: this.counts.confirmed > 0 ? this.totalConfirmationMs / this.counts.confirmed : 0
+        };
+    }
+
+    private onSocketEvent(txId: string, response: BundlerResponse): void {
+        const tx = this.pending.get(txId);
+        if (tx) {
+            this.settle(tx, response);
+            return;
+        }
+
+        // The bundler broadcasts every wallet's transactions; only keep a short window of them
+        const now = Date.now();
+        this.earlyEvents.set(txId, { response, receivedAt: now });
+        for (const [id, event] of this.earlyEvents) {
+            if (this.earlyEvents.size <= MAX_EARLY_EVENTS && now - event.receivedAt < EARLY_EVENT_TTL_MS) break;
+            this.earlyEvents.delete(id);
+        }
+    }
+
+    private settle(tx: TrackedTransaction, response: BundlerResponse): void {
+        if (response.status === 'PROCESSED') {
+            tx.transactionHash = response.data.transactionId;
+            tx.data = response.data.Data;
+            tx.error = undefined; // From expiring, if the answer came late
+            if (tx.swap) {
+                tx.fill = parseSwapFill(tx.data, tx.swap.tokenIn, tx.swap.tokenOut, tx.swap.fee) ?? undefined;
+            }
+            this.finish(tx, 'confirmed');
+            this.totalConfirmationMs += tx.settledAt! - tx.submittedAt;
+            this.logger.info(`✅ Confirmed ${tx.label}: ${tx.txId} (${tx.settledAt! - tx.submittedAt}ms)`);
+            this.publish(tx);
+        } else if (response.status === 'FAILED') {
+            this.fail(tx, `${response.data.ErrorKey}: ${response.data.Message}`);
+        } else {
+            this.logger.debug(`Unknown status for ${tx.txId}:`, (response as any).status);
+        }
+    }
+
+    private expire(tx: TrackedTransaction, timeoutMs: number): void {
+        if (!this.pending.has(tx.txId)) return;
+        tx.state = 'expired';
+        tx.error = `No confirmation within ${timeoutMs}ms`;
+        this.logger.warn(`⌛ No answer for ${tx.label} within ${timeoutMs}ms: ${tx.txId} may still execute`);
+        this.publish(tx);
+
+        // Stop listening eventually; the outcome stays unknown
+        this.timers.set(tx.txId, setTimeout(() => {
+            if (this.pending.get(tx.txId) !== tx) return;
+            tx.state = 'abandoned';
+            tx.settledAt = Date.now();
+            this.counts.abandoned++;
+            this.pending.delete(tx.txId);
+            this.timers.delete(tx.txId);
+            this.remember(tx);
+            this.logger.warn(`⌛ Gave up on ${tx.label}: ${tx.txId} never answered, check it on chain`);
+            this.publish(tx);
+        }, EXPIRED_RETENTION_MS).unref());
+    }
+
+    private fail(tx: TrackedTransaction, error: string): void {
+        tx.error = error;
+        this.finish(tx, 'failed');
+        this.logger.warn(`❌ Failed ${tx.label}: ${tx.txId} - ${error}`);
+        this.publish(tx);
+    }
+
+    private finish(tx: TrackedTransaction, state: 'confirmed' | 'failed'): void {
+        tx.state = state;
+        tx.settledAt = Date.now();
+        this.counts[state]++;
+        this.pending.delete(tx.txId);
+        clearTimeout(this.timers.get(tx.txId));
+        this.timers.delete(tx.txId);
+        this.remember(tx);
+    }
+
+    private remember(tx: TrackedTransaction): void {
+        this.settled.push(tx);
+        if (this.settled.length > MAX_SETTLED) this.settled.shift();
+    }
+
+    private publish(tx: TrackedTransaction): void {
+        const snapshot = { ...tx };
+        this.emit(tx.state, snapshot);
+        this.emit('change', snapshot);
+    }
+}
+
+/**
+ * One tracker per process, since the SDK shares a single event socket between
+ * every GSwap client.
+ */
+export const transactionTracker = new TransactionTracker();
@@ -1,4 +1,5 @@
 import { Logger } from '../utils/logger';
+import { TokenAmount, USD_DECIMALS } from '../utils/tokenAmount';
 
 export interface VolumeMetrics {
     totalVolume: number;
@@ -14,6 +15,9 @@ export class VolumeTracker {
     private logger = new Logger('VolumeTracker');
     private metrics: VolumeMetrics;
     private readonly historySize = 1000; // Keep last 1000 volume records
+    // Exact running totals; metrics expose them as numbers
+    private totalVolume = TokenAmount.zero(USD_DECIMALS);
+    private volumeByToken: Map<string, TokenAmount> = new Map();
 
     constructor() {
         this.metrics = {
@@ -32,7 +36,8 @@ export class VolumeTracker {
         const now = Date.now();
         
         // Update total volume
-        this.metrics.totalVolume += volume;
+        this.totalVolume = this.totalVolume.add(TokenAmount.usd(volume));
+        this.metrics.totalVolume = this.totalVolume.toNumber();
         
         // Update daily volume (last 24 hours)
         this.updateDailyVolume(now);
@@ -41,8 +46,9 @@ export class VolumeTracker {
         this.updateHourlyVolume(now);
         
         // Update volume by token
-        const currentTokenVolume = this.metrics.volumeByToken.get(symbol) || 0;
-        this.metrics.volumeByToken.set(symbol, currentTokenVolume + volume);
+        const currentTokenVolume = this.volumeByToken.get(symbol) || TokenAmount.zero(USD_DECIMALS);
+        this.volumeByToken.set(symbol, currentTokenVolume.add(TokenAmount.usd(volume)));
+        this.metrics.volumeByToken.set(symbol, this.volumeByToken.get(symbol)!.toNumber());
         
         // Add to volume history
         this.metrics.volumeHistory.push({ timestamp: now, volume });
@@ -165,6 +171,8 @@ ${topTokens.map((t, i) => `   ${i + 1}. ${t.symbol}: $${t.volume.toFixed(2)}`).j
             peakVolume: 0,
             averageVolume: 0
         };
+        this.totalVolume = TokenAmount.zero(USD_DECIMALS);
+        this.volumeByToken.clear();
         this.logger.info('🔄 Volume metrics reset');
     }
 }
@@ -12,7 +12,6 @@ export interface BollingerBandsSignal {
 
 export class BollingerBandsStrategy {
     private logger = new Logger('BollingerBandsStrategy');
-    private priceHistory: Map<string, number[]> = new Map();
     private readonly period = 20; // Standard period
     private readonly stdDev = 2; // Standard deviation multiplier
 
@@ -91,22 +90,4 @@ export class BollingerBandsStrategy {
             price: currentPrice
         };
     }
-
-    updatePriceHistory(symbol: string, price: number): void {
-        if (!this.priceHistory.has(symbol)) {
-            this.priceHistory.set(symbol, []);
-        }
-        
-        const history = this.priceHistory.get(symbol)!;
-        history.push(price);
-        
-        // Keep only last 100 prices for memory efficiency
-        if (history.length > 100) {
-            history.shift();
-        }
-    }
-
-    getPriceHistory(symbol: string): number[] {
-        return this.priceHistory.get(symbol) || [];
-    }
 }
@@ -11,7 +11,6 @@ export interface FibonacciSignal {
 
 export class FibonacciStrategy {
     private logger = new Logger('FibonacciStrategy');
-    private priceHistory: Map<string, number[]> = new Map();
     private readonly minGainTarget = 0.10; // 10% minimum gain target
 
     analyzeFibonacci(symbol: string, prices: number[]): FibonacciSignal {
@@ -126,22 +125,4 @@ export class FibonacciStrategy {
             currentPrice
         };
     }
-
-    updatePriceHistory(symbol: string, price: number): void {
-        if (!this.priceHistory.has(symbol)) {
-            this.priceHistory.set(symbol, []);
-        }
-        
-        const history = this.priceHistory.get(symbol)!;
-        history.push(price);
-        
-        // Keep only last 50 prices for memory efficiency
-        if (history.length > 50) {
-            history.shift();
-        }
-    }
-
-    getPriceHistory(symbol: string): number[] {
-        return this.priceHistory.get(symbol) || [];
-    }
 }
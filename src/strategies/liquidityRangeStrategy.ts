@@ -0,0 +1,106 @@
+import { Logger } from '../utils/logger';
+import { Config } from '../config';
+import { PositionValuation } from '../services/liquidityService';
+
+export interface RangeSignal {
+    action: 'HOLD' | 'REBALANCE';
+    reason: string;
+    minPrice: number; // Proposed range in token1 per token0, centered on the current price
+    maxPrice: number;
+    widthPercent: number;
+    positionInRange: number; // 0 at the lower edge, 1 at the upper, outside [0, 1] once out of range
+}
+
+/**
+ * Keeps a liquidity position's range around the pool price. A position is
+ * re-centered once the price leaves its range or comes within
+ * LP_REBALANCE_EDGE_PERCENT of either edge, measured as a share of the range's
+ * width in log-price. The new range is the recent volatility of the pair times
+ * a per-token multiplier, clamped to the configured width limits, so calm
+ * pairs earn on tight ranges and volatile ones aren't re-centered every move.
+ */
+export class LiquidityRangeStrategy {
+    private logger = new Logger('LiquidityRangeStrategy');
+    private readonly edgePercent = Config.LP_REBALANCE_EDGE_PERCENT;
+
+    analyzeRange(valuation: PositionValuation, volatilityPercent: number | undefined): RangeSignal {
+        const { position, currentPrice } = valuation;
+        const pair = `${position.token0.symbol}/${position.token1.symbol}`;
+        const widthPercent = this.rangeWidthPercent([position.token0.symbol, position.token1.symbol], volatilityPercent);
+        const { minPrice, maxPrice } = this.proposeRange(currentPrice, widthPercent);
+
+        const logWidth = Math.log(position.priceUpper / position.priceLower);
+        const positionInRange = Math.log(currentPrice / position.priceLower) / logWidth;
+        const edge = this.edgePercent / 100;
+
+        if (positionInRange < 0 || positionInRange >= 1) {
+            return {
+                action: 'REBALANCE',
+                reason: `${pair} price ${currentPrice.toPrecision(6)} is outside [${position.priceLower.toPrecision(6)}, ${position.priceUpper.toPrecision(6)}]`,
+                minPrice,
+                maxPrice,
+                widthPercent,
+                positionInRange
+            };
+        }
+
+        if (positionInRange < edge || positionInRange > 1 - edge) {
+            return {
+                action: 'REBALANCE',
+                reason: `${pair} price is ${(positionInRange * 100).toFixed(1)}% through its range, within ${this.edgePercent}% of the edge`,
+                minPrice,
+                maxPrice,
+                widthPercent,
+                positionInRange
+            };
+        }
+
+        this.logger.debug(`${pair} ${(positionInRange * 100).toFixed(1)}% through its range`);
+        return {
+            action: 'HOLD',
+            reason: `${pair} price is ${(positionInRange * 100).toFixed(1)}% through its range`,
+            minPrice,
+            maxPrice,
+            widthPercent,
+            positionInRange
+        };
+    }
+
+    /**
+     * Total range width in percent for a pair. The larger multiplier of the
+     * pair's non-stable tokens applies; without enough price history the
+     * default width is used.
+     */
+    rangeWidthPercent(symbols: string[], volatilityPercent: number | undefined): number {
+        if (volatilityPercent === undefined || !(volatilityPercent > 0)) {
+            return clamp(Config.LP_RANGE_DEFAULT_WIDTH_PERCENT);
+        }
+        const volatile = symbols.filter(symbol => !Config.STABLECOINS.includes(symbol));
+        const multiplier = Math.max(...(volatile.length > 0 ? volatile : symbols).map(symbol => Config.LP_RANGE_MULTIPLIERS[symbol] ?? Config.LP_RANGE_MULTIPLIER));
+        return clamp(volatilityPercent * multiplier);
+    }
+
+    /** A range of widthPercent, centered on price in log terms so each side is an equal move. */
+    proposeRange(price: number, widthPercent: number): { minPrice: number; maxPrice: number } {
+        const factor = Math.sqrt(1 + widthPercent / 100);
+        return { minPrice: price / factor, maxPrice: price * factor };
+    }
+}
+
+/**
+ * Standard deviation of log returns between closes, scaled to the whole
+ * window, in percent. Undefined with fewer than three closes.
+ */
+export function measureVolatility(closes: number[]): number | undefined {
+    const prices = closes.filter(price => price > 0);
+    if (prices.length < 3) return undefined;
+
+    const returns = prices.slice(1).map((price, i) => Math.log(price / prices[i]));
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
+    return Math.sqrt(variance * returns.length) * 100;
+}
+
+function clamp(widthPercent: number): number {
+    return Math.min(Config.LP_RANGE_MAX_WIDTH_PERCENT, Math.max(Config.LP_RANGE_MIN_WIDTH_PERCENT, widthPercent));
+}
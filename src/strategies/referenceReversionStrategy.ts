@@ -0,0 +1,75 @@
+import { Logger } from '../utils/logger';
+import { Config } from '../config';
+import { ReferenceDivergence } from '../services/referencePrices';
+
+export interface ReversionSignal {
+    action: 'BUY' | 'SELL' | 'HOLD';
+    confidence: number;
+    reason: string;
+    referencePrice: number;
+    divergencePercent: number;
+}
+
+/**
+ * Trades a GalaDex price back toward the wider market: buys when the pool is
+ * cheaper than the reference by more than the entry threshold, sells when it
+ * is dearer. Gaps beyond REFERENCE_MAX_DIVERGENCE_PERCENT are left alone,
+ * since a gap that wide is more often a broken price than an opportunity.
+ */
+export class ReferenceReversionStrategy {
+    private logger = new Logger('ReferenceReversionStrategy');
+    private readonly entryPercent = Config.REVERSION_ENTRY_PERCENT;
+    private readonly maxDivergencePercent = Config.REFERENCE_MAX_DIVERGENCE_PERCENT;
+
+    analyzeReversion(symbol: string, divergence: ReferenceDivergence | undefined): ReversionSignal {
+        if (!divergence) {
+            return { action: 'HOLD', confidence: 0, reason: `No reference price for ${symbol}`, referencePrice: 0, divergencePercent: 0 };
+        }
+
+        const { referencePrice, divergencePercent } = divergence;
+        const gap = Math.abs(divergencePercent);
+
+        if (gap < this.entryPercent) {
+            return {
+                action: 'HOLD',
+                confidence: 0,
+                reason: `${symbol} within ${this.entryPercent}% of reference (${divergencePercent.toFixed(2)}%)`,
+                referencePrice,
+                divergencePercent
+            };
+        }
+
+        if (gap > this.maxDivergencePercent) {
+            this.logger.debug(`${symbol} is ${divergencePercent.toFixed(2)}% from reference, too far to trust for reversion`);
+            return {
+                action: 'HOLD',
+                confidence: 0,
+                reason: `${symbol} ${divergencePercent.toFixed(2)}% from reference exceeds ${this.maxDivergencePercent}% limit`,
+                referencePrice,
+                divergencePercent
+            };
+        }
+
+        // Confidence grows from the entry threshold toward the divergence limit
+        const span = Math.max(this.maxDivergencePercent - this.entryPercent, 0.0001);
+        const confidence = Math.min(0.9, 0.4 + ((gap - this.entryPercent) / span) * 0.5);
+
+        if (divergencePercent < 0) {
+            return {
+                action: 'BUY',
+                confidence,
+                reason: `${symbol} ${gap.toFixed(2)}% below reference ${referencePrice.toFixed(4)} - expecting reversion up`,
+                referencePrice,
+                divergencePercent
+            };
+        }
+
+        return {
+            action: 'SELL',
+            confidence,
+            reason: `${symbol} ${gap.toFixed(2)}% above reference ${referencePrice.toFixed(4)} - expecting reversion down`,
+            referencePrice,
+            divergencePercent
+        };
+    }
+}
@@ -4,6 +4,7 @@ import { Config } from '../config';
 import { BollingerBandsStrategy, BollingerBandsSignal } from './bollingerBandsStrategy';
 import { FibonacciStrategy, FibonacciSignal } from './fibonacciStrategy';
 import { DCAStrategy, DCASignal } from './dcaStrategy';
+import { ReferenceReversionStrategy } from './referenceReversionStrategy';
 import { TradingProfile } from '../config/tradingProfiles';
 
 export interface TradingSignal {
@@ -14,6 +15,7 @@ export interface TradingSignal {
     targetPrice?: number;
     stopLoss?: number;
     takeProfit?: number;
+    targetOutput?: number; // Exact amount to receive, executed as an exact-output swap: tokens for a BUY, GUSDC for a SELL
 }
 
 export interface MarketData {
@@ -28,7 +30,6 @@ export interface MarketData {
 export class TradingStrategy {
     private logger = new Logger('TradingStrategy');
     private galaDexService: GalaDexService;
-    private priceHistory: Map<string, number[]> = new Map();
     private volumeHistory: Map<string, number[]> = new Map();
     private lastSignals: Map<string, TradingSignal> = new Map();
     
@@ -36,6 +37,7 @@ export class TradingStrategy {
     private bollingerBandsStrategy: BollingerBandsStrategy;
     private fibonacciStrategy: FibonacciStrategy;
     private dcaStrategy: DCAStrategy;
+    private reversionStrategy: ReferenceReversionStrategy;
     
     // Current trading profile
     private currentProfile: TradingProfile;
@@ -45,6 +47,7 @@ export class TradingStrategy {
         this.bollingerBandsStrategy = new BollingerBandsStrategy();
         this.fibonacciStrategy = new FibonacciStrategy();
         this.dcaStrategy = new DCAStrategy();
+        this.reversionStrategy = new ReferenceReversionStrategy();
         
         // Set default profile if none provided
         this.currentProfile = initialProfile || {
@@ -58,7 +61,8 @@ export class TradingStrategy {
                 trend: 0.10,
                 bollingerBands: 0.15,
                 fibonacci: 0.15,
-                dca: 0.10
+                dca: 0.10,
+                reversion: 0.00
             },
             riskSettings: {
                 maxPositionSize: 1000,
@@ -80,7 +84,8 @@ export class TradingStrategy {
                 trend: true,
                 bollingerBands: true,
                 fibonacci: true,
-                dca: true
+                dca: true,
+                reversion: false
             }
         };
     }
@@ -91,9 +96,12 @@ export class TradingStrategy {
 
         this.logger.info('🔍 Analyzing market conditions...');
 
+        // One validated, USD-priced sample per token, recorded into the candles by fetchPrices itself
+        const prices = new Map((await this.galaDexService.fetchPrices()).map(price => [price.token, price.price]));
+
         for (const token of tokens) {
             try {
-                const signal = await this.analyzeToken(token);
+                const signal = await this.analyzeToken(token, prices.get(token.symbol));
                 if (signal.action !== 'HOLD') {
                     signals.set(token.symbol, signal);
                     this.lastSignals.set(token.symbol, signal);
@@ -106,28 +114,30 @@ export class TradingStrategy {
         return signals;
     }
 
-    private async analyzeToken(token: GalaToken): Promise<TradingSignal> {
+    private async analyzeToken(token: GalaToken, currentPrice: number | undefined): Promise<TradingSignal> {
         const symbol = token.symbol;
         
-        // Get current price data
-        const currentPrice = await this.getCurrentPrice(token);
+        // No price means no quote, or a sample that failed validation; neither is traded on
         if (!currentPrice) {
-            return { action: 'HOLD', confidence: 0, reason: 'No price data available' };
+            return { action: 'HOLD', confidence: 0, reason: 'No validated price available' };
         }
 
-        // Update price history
-        this.updatePriceHistory(symbol, currentPrice);
+        // A pool this far from the wider market is not traded on by any strategy
+        const divergence = await this.galaDexService.compareToReference(symbol, currentPrice);
+        if (divergence && Math.abs(divergence.divergencePercent) > Config.REFERENCE_MAX_DIVERGENCE_PERCENT) {
+            return {
+                action: 'HOLD',
+                confidence: 0,
+                reason: `Price ${divergence.divergencePercent.toFixed(2)}% from reference ${divergence.referencePrice}, trading blocked`
+            };
+        }
 
-        // Get price history for analysis
-        const prices = this.priceHistory.get(symbol) || [];
+        // Every strategy reads the same candle closes
+        const prices = this.galaDexService.candles.getCloses(symbol, Config.STRATEGY_CANDLE_INTERVAL);
         if (prices.length < 10) {
             return { action: 'HOLD', confidence: 0, reason: 'Insufficient price history' };
         }
 
-        // Update price history for new strategies
-        this.bollingerBandsStrategy.updatePriceHistory(symbol, currentPrice);
-        this.fibonacciStrategy.updatePriceHistory(symbol, currentPrice);
-
         // Multiple strategy analysis
         const arbitrageSignal = await this.analyzeArbitrage(token, currentPrice);
         const momentumSignal = this.analyzeMomentum(symbol, prices);
@@ -138,6 +148,7 @@ export class TradingStrategy {
         const bollingerSignal = this.bollingerBandsStrategy.analyzeBollingerBands(symbol, prices);
         const fibonacciSignal = this.fibonacciStrategy.analyzeFibonacci(symbol, prices);
         const dcaSignal = this.dcaStrategy.analyzeDCA(symbol, currentPrice);
+        const reversionSignal = this.reversionStrategy.analyzeReversion(symbol, divergence);
 
         // Combine signals with profile-based weighted scoring
         const signals = [
@@ -147,7 +158,8 @@ export class TradingStrategy {
             trendSignal,
             { action: bollingerSignal.action, confidence: bollingerSignal.confidence, reason: bollingerSignal.reason, strategy: 'BollingerBands' },
             { action: fibonacciSignal.action, confidence: fibonacciSignal.confidence, reason: fibonacciSignal.reason, strategy: 'Fibonacci' },
-            { action: dcaSignal.action, confidence: dcaSignal.confidence, reason: dcaSignal.reason, strategy: 'DCA' }
+            { action: dcaSignal.action, confidence: dcaSignal.confidence, reason: dcaSignal.reason, strategy: 'DCA' },
+            { action: reversionSignal.action, confidence: reversionSignal.confidence, reason: reversionSignal.reason, strategy: 'Reversion' }
         ];
         
         // Use profile weights, but only for enabled strategies
@@ -158,10 +170,16 @@ export class TradingStrategy {
             this.currentProfile.enabledStrategies.trend ? this.currentProfile.strategyWeights.trend : 0,
             this.currentProfile.enabledStrategies.bollingerBands ? this.currentProfile.strategyWeights.bollingerBands : 0,
             this.currentProfile.enabledStrategies.fibonacci ? this.currentProfile.strategyWeights.fibonacci : 0,
-            this.currentProfile.enabledStrategies.dca ? this.currentProfile.strategyWeights.dca : 0
+            this.currentProfile.enabledStrategies.dca ? this.currentProfile.strategyWeights.dca : 0,
+            this.currentProfile.enabledStrategies.reversion ? this.currentProfile.strategyWeights.reversion : 0
         ];
 
         const combinedSignal = this.combineSignals(signals, weights);
+
+        // DCA buys a fixed quantity, so when it agrees with the combined BUY the order targets that output
+        if (combinedSignal.action === 'BUY' && this.currentProfile.enabledStrategies.dca && dcaSignal.action === 'BUY') {
+            combinedSignal.targetOutput = dcaSignal.dcaAmount;
+        }
         
         this.logger.debug(`📊 ${symbol} Analysis:`, {
             arbitrage: arbitrageSignal.confidence,
@@ -171,6 +189,7 @@ export class TradingStrategy {
             bollinger: bollingerSignal.confidence,
             fibonacci: fibonacciSignal.confidence,
             dca: dcaSignal.confidence,
+            reversion: reversionSignal.confidence,
             combined: combinedSignal.confidence
         });
 
@@ -194,7 +213,8 @@ export class TradingStrategy {
             trend: this.currentProfile.strategyWeights.trend,
             bollingerBands: this.currentProfile.strategyWeights.bollingerBands,
             fibonacci: this.currentProfile.strategyWeights.fibonacci,
-            dca: this.currentProfile.strategyWeights.dca
+            dca: this.currentProfile.strategyWeights.dca,
+            reversion: this.currentProfile.strategyWeights.reversion
         };
     }
 
@@ -206,17 +226,14 @@ export class TradingStrategy {
         try {
             // Check for arbitrage opportunities across different fee tiers
             const feeTiers = [100, 500, 3000, 10000]; // 0.01%, 0.05%, 0.3%, 1%
+            const baseToken = this.galaDexService.getBaseToken();
             const quotes = [];
 
             for (const fee of feeTiers) {
+                if (!baseToken) break;
                 try {
-                    const quote = await this.galaDexService.gswap.quoting.quoteExactInput(
-                        token.classKey as any,
-                        'GUSDC|Unit|none|none',
-                        '100',
-                        fee
-                    );
-                    const price = parseFloat((quote as any).outTokenAmount || '0');
+                    const quote = await this.galaDexService.getQuote(token, baseToken, 100, fee);
+                    const price = quote.price;
                     quotes.push({ fee, price });
                 } catch (error) {
                     // Pool might not exist for this fee tier
@@ -372,32 +389,6 @@ export class TradingStrategy {
         };
     }
 
-    private async getCurrentPrice(token: GalaToken): Promise<number | null> {
-        try {
-            const quote = await this.galaDexService.gswap.quoting.quoteExactInput(
-                token.classKey as any,
-                'GUSDC|Unit|none|none',
-                '1',
-                500
-            );
-            return parseFloat((quote as any).outTokenAmount || '0');
-        } catch (error) {
-            return null;
-        }
-    }
-
-    private updatePriceHistory(symbol: string, price: number): void {
-        const prices = this.priceHistory.get(symbol) || [];
-        prices.push(price);
-        
-        // Keep only last 100 prices
-        if (prices.length > 100) {
-            prices.shift();
-        }
-        
-        this.priceHistory.set(symbol, prices);
-    }
-
     private calculateMA(prices: number[]): number {
         return prices.reduce((a, b) => a + b, 0) / prices.length;
     }
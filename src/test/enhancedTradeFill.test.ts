@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { EnhancedTradingService, TradeExecution } from '../services/enhancedTradingService';
+import { GalaToken } from '../services/galaDexService';
+import { SwapFill } from '../services/swapFill';
+import { TradingSignal } from '../strategies/tradingStrategy';
+import { TokenAmount } from '../utils/tokenAmount';
+
+const token = (symbol: string, decimals: number): GalaToken => ({
+    symbol,
+    classKey: `${symbol}|Unit|none|none`,
+    tokenClassKey: { collection: symbol, category: 'Unit', type: 'none', additionalKey: 'none' },
+    decimals,
+    name: symbol
+});
+
+const GALA = token('GALA', 8);
+const GUSDC = token('GUSDC', 6);
+
+// planSwap and applyFill only read their arguments, so the service's dependencies aren't needed
+const service = Object.create(EnhancedTradingService.prototype) as EnhancedTradingService;
+
+function signal(action: 'BUY' | 'SELL', targetOutput?: number): TradingSignal {
+    return { action, confidence: 1, reason: 'test', targetOutput } as TradingSignal;
+}
+
+function trade(action: 'BUY' | 'SELL', amount: number): TradeExecution {
+    return { id: 't', token: 'GALA', action, amount, price: 0, confidence: 1, reason: 'test', timestamp: 0, status: 'SUBMITTED' };
+}
+
+function fill(tokenIn: GalaToken, tokenOut: GalaToken, amountIn: number, amountOut: number, fee: number): SwapFill {
+    return {
+        tokenIn,
+        tokenOut,
+        amountIn: TokenAmount.fromDecimal(amountIn, tokenIn.decimals),
+        amountOut: TokenAmount.fromDecimal(amountOut, tokenOut.decimals),
+        feeAmount: TokenAmount.fromDecimal(fee, tokenIn.decimals),
+        feeEstimated: false,
+        price: amountOut / amountIn
+    };
+}
+
+test('a BUY spends GUSDC on the token, with or without a target output', () => {
+    for (const buy of [signal('BUY'), signal('BUY', 500)]) {
+        const request = service['planSwap'](GALA, GUSDC, buy, 500);
+        assert.strictEqual(request.mode, 'exactOut');
+        assert.strictEqual(request.tokenIn, GUSDC);
+        assert.strictEqual(request.tokenOut, GALA);
+    }
+
+    const sell = service['planSwap'](GALA, GUSDC, signal('SELL'), 500);
+    assert.strictEqual(sell.mode, 'exactIn');
+    assert.strictEqual(sell.tokenIn, GALA);
+});
+
+test('fills are booked in tokens and GUSDC per token in either direction', () => {
+    // Paid 10 GUSDC, 0.005 of it fee, for 500 GALA
+    const bought = trade('BUY', 500);
+    service['applyFill'](bought, fill(GUSDC, GALA, 10, 500, 0.005));
+    assert.strictEqual(bought.amount, 500);
+    assert.ok(Math.abs(bought.price - 0.02) < 1e-12, `bought at ${bought.price}`);
+    assert.ok(Math.abs(bought.fee! - 0.005) < 1e-12, `buy fee ${bought.fee}`);
+
+    // Sold 500 GALA, 0.25 GALA of it fee, for 10 GUSDC
+    const sold = trade('SELL', 500);
+    service['applyFill'](sold, fill(GALA, GUSDC, 500, 10, 0.25));
+    assert.strictEqual(sold.amount, 500);
+    assert.ok(Math.abs(sold.price - 0.02) < 1e-12, `sold at ${sold.price}`);
+    assert.ok(Math.abs(sold.fee! - 0.005) < 1e-12, `sell fee ${sold.fee}`);
+});
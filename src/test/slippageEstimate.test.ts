@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import BigNumber from 'bignumber.js';
+import { FEE_TIER, GSwap, GetQuoteResult } from '@gala-chain/gswap-sdk';
+import { MockPool } from '../mock/mockPool';
+import { DepthProfiler } from '../services/depthProfiler';
+import { GalaToken } from '../services/galaDexService';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { PoolStateReader } from '../services/poolStateReader';
+import { RiskManager } from '../services/riskManager';
+import { RouteFinder } from '../services/routeFinder';
+import { TokenRegistry } from '../services/tokenRegistry';
+import { ArbitrageOpportunity } from '../services/tradingService';
+
+const token = (symbol: string, decimals: number): GalaToken => ({
+    symbol,
+    classKey: `${symbol}|Unit|none|none`,
+    tokenClassKey: { collection: symbol, category: 'Unit', type: 'none', additionalKey: 'none' },
+    decimals,
+    name: symbol
+});
+
+const GALA = token('GALA', 8);
+const GUSDC = token('GUSDC', 6);
+const GALA_USD = 0.02;
+const FEE: FEE_TIER = 3000;
+
+// GALA sorts first, so selling it is zero for one
+const pool = MockPool.fromUsdPrices(GALA, GUSDC, FEE, GALA_USD, 1, 250000);
+
+// Quotes the pool the way the SDK does, impact included as a fraction
+const marketData = {
+    quoteExactInput: async (tokenIn: string, _tokenOut: string, amountIn: string): Promise<GetQuoteResult> => {
+        const result = pool.quote(tokenIn === GALA.classKey, amountIn);
+        const [inAmount, outAmount] = tokenIn === GALA.classKey
+            ? [result.amount0, result.amount1.negated()]
+            : [result.amount1, result.amount0.negated()];
+        const currentPrice = result.currentSqrtPrice.pow(2);
+        const newPrice = result.newSqrtPrice.pow(2);
+        return {
+            amount0: result.amount0,
+            amount1: result.amount1,
+            currentPoolSqrtPrice: result.currentSqrtPrice,
+            newPoolSqrtPrice: result.newSqrtPrice,
+            inTokenAmount: inAmount,
+            outTokenAmount: outAmount,
+            currentPrice,
+            newPrice,
+            priceImpact: newPrice.minus(currentPrice).div(currentPrice),
+            feeTier: FEE
+        } as unknown as GetQuoteResult;
+    }
+} as unknown as MarketDataProvider;
+
+const gswap = {
+    pools: {
+        getPoolData: async () => {
+            const data = pool.toPoolData();
+            return { ...data, sqrtPrice: new BigNumber(data.sqrtPrice as string), liquidity: new BigNumber(data.liquidity as string) };
+        }
+    }
+} as unknown as GSwap;
+
+const tokenRegistry = { getToken: () => GUSDC } as unknown as TokenRegistry;
+const routeFinder = { findBestRoute: async () => ({ amountOut: GALA_USD }) } as unknown as RouteFinder;
+
+function opportunity(volume: number): ArbitrageOpportunity {
+    return {
+        token: 'GALA/GUSDC',
+        buyExchange: 'GalaDex',
+        sellExchange: 'GalaDex',
+        buyPrice: GALA_USD,
+        sellPrice: GALA_USD,
+        profit: 0,
+        profitPercentage: 0,
+        volume,
+        timestamp: Date.now(),
+        route: {
+            hops: [{ tokenIn: GALA, tokenOut: GUSDC, fee: FEE, amountIn: 0, amountOut: 0, priceImpact: 0 }],
+            amountIn: 0,
+            amountOut: 0,
+            priceImpact: 0,
+            path: 'GALA -> GUSDC'
+        }
+    };
+}
+
+test('simulated and depth-curve slippage agree on the same pool', async () => {
+    const depthProfiler = new DepthProfiler(marketData, tokenRegistry, routeFinder);
+    const simulated = new RiskManager(depthProfiler, undefined, undefined, new PoolStateReader(gswap));
+    const measured = new RiskManager(depthProfiler);
+
+    // On a ladder rung, and between two rungs where the curve interpolates
+    for (const volume of [1000, 750]) {
+        const fromSimulation = await simulated['calculateExpectedSlippage'](opportunity(volume));
+        const fromDepth = await measured['calculateExpectedSlippage'](opportunity(volume));
+
+        assert.ok(fromSimulation > 0 && fromSimulation < 0.05, `simulated slippage ${fromSimulation} should be a small fraction`);
+        assert.ok(Math.abs(fromSimulation - fromDepth) / fromSimulation < 0.02,
+            `$${volume}: simulation ${fromSimulation} and depth curve ${fromDepth} disagree`);
+    }
+});
@@ -0,0 +1,47 @@
+import { mock, test } from 'node:test';
+import * as assert from 'node:assert';
+import { PendingTransaction } from '@gala-chain/gswap-sdk';
+import { GalaToken } from '../services/galaDexService';
+import { SwapQueue } from '../services/swapQueue';
+import { EXPIRED_RETENTION_MS, transactionTracker } from '../services/transactionTracker';
+import { TokenAmount } from '../utils/tokenAmount';
+
+const GUSDC: GalaToken = {
+    symbol: 'GUSDC',
+    classKey: 'GUSDC|Unit|none|none',
+    tokenClassKey: { collection: 'GUSDC', category: 'Unit', type: 'none', additionalKey: 'none' },
+    decimals: 6,
+    name: 'GUSDC'
+};
+
+const WAIT_TIMEOUT_MS = 30000;
+
+test('an expired swap holds its funds until the tracker gives up on it', async () => {
+    mock.timers.enable(['setTimeout']);
+    try {
+        const queue = new SwapQueue('eth|test-wallet');
+        const balance = TokenAmount.fromDecimal(100, GUSDC.decimals);
+        const swap = (txId: string) => queue.submit({
+            label: `swap ${txId}`,
+            spends: [{ token: GUSDC, amount: TokenAmount.fromDecimal(60, GUSDC.decimals) }],
+            getBalance: async () => balance,
+            submit: async () => {
+                transactionTracker.track(txId, `swap ${txId}`, WAIT_TIMEOUT_MS);
+                return { transactionId: txId } as PendingTransaction;
+            }
+        });
+
+        await swap('tx-1');
+        mock.timers.tick(WAIT_TIMEOUT_MS);
+        assert.strictEqual(transactionTracker.get('tx-1')?.state, 'expired');
+        assert.strictEqual(queue.getStats().inFlight, 1);
+        await assert.rejects(swap('tx-2'), { name: 'InsufficientBalanceError' });
+
+        mock.timers.tick(EXPIRED_RETENTION_MS);
+        assert.strictEqual(transactionTracker.get('tx-1')?.state, 'abandoned');
+        assert.strictEqual(queue.getStats().inFlight, 0);
+        await swap('tx-3');
+    } finally {
+        mock.timers.reset();
+    }
+});
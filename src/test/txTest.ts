@@ -1,28 +1,25 @@
-import { GSwap, PrivateKeySigner } from '@gala-chain/gswap-sdk';
+import { GSwap } from '@gala-chain/gswap-sdk';
 import { Config } from '../config';
 import { Logger } from '../utils/logger';
+import { TokenAmount } from '../utils/tokenAmount';
+import { NormalizedQuote, normalizeQuote } from '../services/normalizedQuote';
+import { tokenFromClassKey } from '../services/tokenRegistry';
+import { connectEventSocket, createGSwap } from '../services/networkProfile';
+
+const GALA = tokenFromClassKey('GALA|Unit|none|none', 8, 'Gala');
+const GUSDC = tokenFromClassKey('GUSDC|Unit|none|none', 6, 'Gala USD Coin');
 
 export class TransactionTest {
     private logger = new Logger('TransactionTest');
     private gswap: GSwap;
 
     constructor() {
-        this.gswap = new GSwap({
-            signer: new PrivateKeySigner(Config.PRIVATE_KEY),
-            walletAddress: Config.WALLET_ADDRESS,
-            gatewayBaseUrl: 'https://gateway-mainnet.galachain.com',
-            dexContractBasePath: '/api/asset/dexv3-contract',
-            tokenContractBasePath: '/api/asset/token-contract',
-            bundlerBaseUrl: 'https://bundle-backend-prod1.defi.gala.com',
-            bundlingAPIBasePath: '/bundle',
-            dexBackendBaseUrl: 'https://dex-backend-prod1.defi.gala.com',
-            transactionWaitTimeoutMs: 300000, // 5 minutes
-        });
+        this.gswap = createGSwap();
     }
 
     async initialize(): Promise<void> {
         this.logger.info('🔌 Connecting to GalaDex socket...');
-        await GSwap.events.connectEventSocket();
+        await connectEventSocket();
         this.logger.info('✅ Socket connected');
     }
 
@@ -41,24 +38,11 @@ export class TransactionTest {
 
             // Get a quote for 100 GALA to GUSDC
             this.logger.info('📊 Getting quote for 100 GALA to GUSDC...');
-            const quote = await this.gswap.quoting.quoteExactInput(
-                'GALA|Unit|none|none',
-                'GUSDC|Unit|none|none',
-                '100',
-                500 // 0.5% fee tier
-            );
-
-            const expectedGusdc = parseFloat((quote as any).amountOut || '0') / Math.pow(10, 6);
-            this.logger.info(`📈 Expected GUSDC output: ${expectedGusdc.toFixed(6)}`);
-            this.logger.info(`🔍 Raw quote amountOut: ${(quote as any).amountOut}`);
-            this.logger.info(`🔍 Raw quote outTokenAmount: ${(quote as any).outTokenAmount}`);
-
-            // Use outTokenAmount if amountOut is 0
-            const actualExpectedGusdc = expectedGusdc > 0 ? expectedGusdc : parseFloat((quote as any).outTokenAmount || '0');
-            this.logger.info(`📈 Actual expected GUSDC: ${actualExpectedGusdc.toFixed(6)}`);
+            const quote = await this.quoteGalaToGusdc(100);
+            this.logger.info(`📈 Expected GUSDC output: ${quote.outAmount} (impact ${quote.priceImpact.toFixed(4)}%)`);
 
             // Calculate minimum amount out with 1% slippage tolerance
-            const minAmountOut = (actualExpectedGusdc * 0.99).toFixed(6);
+            const minAmountOut = quote.outAmount.minusSlippage(0.01);
             this.logger.info(`📉 Minimum GUSDC (1% slippage): ${minAmountOut}`);
 
             // Execute the swap
@@ -68,8 +52,8 @@ export class TransactionTest {
                 'GUSDC|Unit|none|none',
                 500, // 0.5% fee tier
                 {
-                    exactIn: '100',
-                    amountOutMinimum: minAmountOut,
+                    exactIn: quote.amountIn.toString(),
+                    amountOutMinimum: minAmountOut.toString(),
                 },
                 Config.WALLET_ADDRESS
             );
@@ -112,15 +96,8 @@ export class TransactionTest {
             this.logger.info('🧪 Testing dry run mode (no actual transaction)...');
             
             // Get quote without executing
-            const quote = await this.gswap.quoting.quoteExactInput(
-                'GALA|Unit|none|none',
-                'GUSDC|Unit|none|none',
-                '100',
-                500
-            );
-
-            const expectedGusdc = parseFloat((quote as any).amountOut || '0') / Math.pow(10, 6);
-            this.logger.info(`📊 Dry run quote: 100 GALA → ${expectedGusdc.toFixed(6)} GUSDC`);
+            const quote = await this.quoteGalaToGusdc(100);
+            this.logger.info(`📊 Dry run quote: 100 GALA → ${quote.outAmount} GUSDC`);
             this.logger.info('✅ Dry run test completed successfully');
 
         } catch (error) {
@@ -129,6 +106,12 @@ export class TransactionTest {
         }
     }
 
+    private async quoteGalaToGusdc(amount: number): Promise<NormalizedQuote> {
+        const amountIn = TokenAmount.fromDecimal(amount, GALA.decimals);
+        const quote = await this.gswap.quoting.quoteExactInput(GALA.classKey, GUSDC.classKey, amountIn.toString(), 500);
+        return normalizeQuote(GALA, GUSDC, amountIn, quote);
+    }
+
     private async getTokenBalance(tokenClassKey: string): Promise<number> {
         try {
             const assets = await this.gswap.assets.getUserAssets(Config.WALLET_ADDRESS);
@@ -1,6 +1,7 @@
 import { Logger } from './utils/logger';
 import { EnhancedTradingService } from './services/enhancedTradingService';
 import { GalaDexService } from './services/galaDexService';
+import { tokenFromClassKey } from './services/tokenRegistry';
 
 export class TradingDashboard {
     private logger = new Logger('TradingDashboard');
@@ -42,12 +43,7 @@ export class TradingDashboard {
 
     private async displayBalanceStatus(): Promise<void> {
         try {
-            const galaBalance = await this.galaDexService.getTokenBalance({
-                symbol: 'GALA',
-                classKey: 'GALA|Unit|none|none',
-                decimals: 8,
-                name: 'Gala'
-            });
+            const galaBalance = await this.galaDexService.getTokenBalance(tokenFromClassKey('GALA|Unit|none|none', 8, 'Gala'));
             
             console.log(`💰 Wallet Status: ${galaBalance > 0 ? '✅ CONNECTED' : '❌ NO BALANCE'}`);
             console.log(`   GALA Balance: ${galaBalance.toFixed(6)} GALA`);
@@ -90,6 +86,7 @@ export class TradingDashboard {
         console.log(`   ${enabled.bollingerBands ? '✅' : '❌'} Bollinger Bands (${(weights.bollingerBands * 100).toFixed(1)}% weight)`);
         console.log(`   ${enabled.fibonacci ? '✅' : '❌'} Fibonacci Strategy (${(weights.fibonacci * 100).toFixed(1)}% weight)`);
         console.log(`   ${enabled.dca ? '✅' : '❌'} DCA Strategy (${(weights.dca * 100).toFixed(1)}% weight)`);
+        console.log(`   ${enabled.reversion ? '✅' : '❌'} Reference Reversion (${(weights.reversion * 100).toFixed(1)}% weight)`);
         console.log('');
     }
 
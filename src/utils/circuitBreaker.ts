@@ -0,0 +1,78 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStats {
+    state: CircuitState;
+    consecutiveFailures: number;
+    failures: number;
+    rejected: number; // Calls refused while the circuit was open
+    openedAt?: number;
+}
+
+/**
+ * Stops calling an endpoint after a run of failures. Once open it refuses
+ * calls until the cooldown has passed, then lets a single probe through
+ * (half-open): success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+    private failureThreshold: number;
+    private cooldownMs: number;
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private failures = 0;
+    private rejected = 0;
+    private openedAt?: number;
+    private probeInFlight = false;
+
+    constructor(failureThreshold: number, cooldownMs: number) {
+        this.failureThreshold = failureThreshold;
+        this.cooldownMs = cooldownMs;
+    }
+
+    /** Whether a call may go out now; claims the probe slot when half-open. */
+    canRequest(): boolean {
+        const state = this.getState();
+        if (state === 'closed') return true;
+        if (state === 'half-open' && !this.probeInFlight) {
+            this.state = 'half-open';
+            this.probeInFlight = true;
+            return true;
+        }
+        this.rejected++;
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = undefined;
+        this.probeInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.failures++;
+        this.consecutiveFailures++;
+        if (this.probeInFlight || this.consecutiveFailures >= this.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+        this.probeInFlight = false;
+    }
+
+    /** An open circuit reads as half-open once its cooldown has passed. */
+    getState(): CircuitState {
+        if (this.state === 'open' && this.openedAt !== undefined && Date.now() - this.openedAt >= this.cooldownMs) {
+            return 'half-open';
+        }
+        return this.state;
+    }
+
+    getStats(): CircuitBreakerStats {
+        return {
+            state: this.getState(),
+            consecutiveFailures: this.consecutiveFailures,
+            failures: this.failures,
+            rejected: this.rejected,
+            openedAt: this.openedAt
+        };
+    }
+}
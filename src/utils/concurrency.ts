@@ -0,0 +1,51 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * keeping results in input order. The function should handle its own errors;
+ * a rejection fails the whole map.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    });
+
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Lets at most `limit` callers run at once, queueing the rest in arrival
+ * order. Unlike mapWithConcurrency it can be shared by independent or nested
+ * maps, so a bound on one kind of request holds however they fan out. Only
+ * leaf work should take a slot: a holder that waits on another slot can
+ * deadlock.
+ */
+export class Semaphore {
+    private readonly limit: number;
+    private active = 0;
+    private waiting: Array<() => void> = [];
+
+    constructor(limit: number) {
+        this.limit = Math.max(1, limit);
+    }
+
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.active++;
+        }
+        try {
+            return await fn();
+        } finally {
+            // Hand the slot straight to the next caller, so active never dips and refills
+            const next = this.waiting.shift();
+            if (next) next(); else this.active--;
+        }
+    }
+}
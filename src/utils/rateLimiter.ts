@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RateLimiterStats {
+    requestsPerSecond: number;
+    requests: number;
+    throttled: number; // Requests that had to wait for budget
+    totalWaitMs: number;
+}
+
+/** Requests made by one piece of work, e.g. a scan, and how long they waited for budget. */
+export interface RequestUsage {
+    requests: number;
+    waitMs: number;
+}
+
+/**
+ * Token bucket that spaces calls out to a requests-per-second budget, allowing
+ * a burst of up to one second's worth. Callers reserve a slot and wait for it,
+ * so concurrent callers queue fairly. A budget of 0 disables limiting.
+ */
+export class RateLimiter {
+    private requestsPerSecond: number;
+    private tokens: number;
+    private lastRefill = Date.now();
+    private requests = 0;
+    private throttled = 0;
+    private totalWaitMs = 0;
+    private usage = new AsyncLocalStorage<RequestUsage>();
+
+    constructor(requestsPerSecond: number) {
+        this.requestsPerSecond = requestsPerSecond;
+        this.tokens = requestsPerSecond;
+    }
+
+    async acquire(): Promise<void> {
+        const usage = this.usage.getStore();
+        this.requests++;
+        if (usage) usage.requests++;
+        if (this.requestsPerSecond <= 0) return;
+
+        const now = Date.now();
+        this.tokens = Math.min(this.requestsPerSecond, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+        this.lastRefill = now;
+
+        // Reserve a token even if it is not there yet; the debt sets the wait
+        this.tokens -= 1;
+        if (this.tokens >= 0) return;
+
+        const waitMs = Math.ceil((-this.tokens / this.requestsPerSecond) * 1000);
+        this.throttled++;
+        this.totalWaitMs += waitMs;
+        if (usage) usage.waitMs += waitMs;
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+
+    /**
+     * Runs fn and counts the requests it makes, through every await it starts,
+     * into usage. Requests from anything else running meanwhile aren't counted.
+     */
+    async track<T>(usage: RequestUsage, fn: () => Promise<T>): Promise<T> {
+        return this.usage.run(usage, fn);
+    }
+
+    getStats(): RateLimiterStats {
+        return {
+            requestsPerSecond: this.requestsPerSecond,
+            requests: this.requests,
+            throttled: this.throttled,
+            totalWaitMs: this.totalWaitMs
+        };
+    }
+}
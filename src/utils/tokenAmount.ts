@@ -0,0 +1,146 @@
+import BigNumber from 'bignumber.js';
+
+export type AmountRounding = 'down' | 'up' | 'nearest';
+
+export type AmountValue = string | number | BigNumber;
+
+// GUSDC precision, used for every USD-denominated total
+export const USD_DECIMALS = 6;
+
+const ROUNDING_MODES: Record<AmountRounding, BigNumber.RoundingMode> = {
+    down: BigNumber.ROUND_FLOOR,
+    up: BigNumber.ROUND_CEIL,
+    nearest: BigNumber.ROUND_HALF_EVEN
+};
+
+/**
+ * An exact token quantity: an integer count of base units plus the token's
+ * decimals. Conversions from floats round once, explicitly, at the token's
+ * precision; arithmetic after that is exact, and toString() always yields a
+ * plain decimal string the gateway accepts.
+ */
+export class TokenAmount {
+    readonly raw: bigint;
+    readonly decimals: number;
+
+    private constructor(raw: bigint, decimals: number) {
+        this.raw = raw;
+        this.decimals = decimals;
+    }
+
+    static fromRaw(raw: bigint | string, decimals: number): TokenAmount {
+        return new TokenAmount(BigInt(raw), decimals);
+    }
+
+    static fromDecimal(value: AmountValue, decimals: number, rounding: AmountRounding = 'down'): TokenAmount {
+        const decimal = new BigNumber(value);
+        if (!decimal.isFinite()) {
+            throw new Error(`Invalid token amount: ${value}`);
+        }
+        const raw = decimal.shiftedBy(decimals).integerValue(ROUNDING_MODES[rounding]);
+        return new TokenAmount(BigInt(raw.toFixed(0)), decimals);
+    }
+
+    static zero(decimals: number): TokenAmount {
+        return new TokenAmount(0n, decimals);
+    }
+
+    static usd(value: AmountValue): TokenAmount {
+        return TokenAmount.fromDecimal(value, USD_DECIMALS, 'nearest');
+    }
+
+    add(other: TokenAmount): TokenAmount {
+        this.assertSameDecimals(other);
+        return new TokenAmount(this.raw + other.raw, this.decimals);
+    }
+
+    sub(other: TokenAmount): TokenAmount {
+        this.assertSameDecimals(other);
+        return new TokenAmount(this.raw - other.raw, this.decimals);
+    }
+
+    /** Scales by a ratio such as a price or a fraction, rounding back to the token's precision. */
+    mul(factor: AmountValue, rounding: AmountRounding = 'down'): TokenAmount {
+        const raw = new BigNumber(this.raw.toString()).times(factor).integerValue(ROUNDING_MODES[rounding]);
+        return new TokenAmount(BigInt(raw.toFixed(0)), this.decimals);
+    }
+
+    div(divisor: AmountValue, rounding: AmountRounding = 'down'): TokenAmount {
+        const raw = new BigNumber(this.raw.toString()).div(divisor).integerValue(ROUNDING_MODES[rounding]);
+        return new TokenAmount(BigInt(raw.toFixed(0)), this.decimals);
+    }
+
+    /**
+     * Smallest acceptable output after slippage. Always rounds down so the
+     * minimum never exceeds what the quote promised.
+     */
+    minusSlippage(slippage: number): TokenAmount {
+        return this.mul(new BigNumber(1).minus(slippage), 'down');
+    }
+
+    /**
+     * Largest acceptable input after slippage. Always rounds up so the maximum
+     * never falls below what the quote asked for.
+     */
+    plusSlippage(slippage: number): TokenAmount {
+        return this.mul(new BigNumber(1).plus(slippage), 'up');
+    }
+
+    /** Ratio of this amount to another, e.g. output per unit of input. */
+    ratio(other: TokenAmount): BigNumber {
+        return this.toBigNumber().div(other.toBigNumber());
+    }
+
+    compare(other: TokenAmount): number {
+        this.assertSameDecimals(other);
+        return this.raw === other.raw ? 0 : this.raw < other.raw ? -1 : 1;
+    }
+
+    lt(other: TokenAmount): boolean {
+        return this.compare(other) < 0;
+    }
+
+    gt(other: TokenAmount): boolean {
+        return this.compare(other) > 0;
+    }
+
+    max(other: TokenAmount): TokenAmount {
+        return this.gt(other) ? this : other;
+    }
+
+    isZero(): boolean {
+        return this.raw === 0n;
+    }
+
+    isPositive(): boolean {
+        return this.raw > 0n;
+    }
+
+    isNegative(): boolean {
+        return this.raw < 0n;
+    }
+
+    toBigNumber(): BigNumber {
+        return new BigNumber(this.raw.toString()).shiftedBy(-this.decimals);
+    }
+
+    /** Lossy; only for display, metrics and float-based heuristics. */
+    toNumber(): number {
+        return this.toBigNumber().toNumber();
+    }
+
+    toString(): string {
+        return this.toBigNumber().toFixed();
+    }
+
+    // bigint has no JSON form; serialise as the decimal string
+    toJSON(): string {
+        return this.toString();
+    }
+
+    private assertSameDecimals(other: TokenAmount): void {
+        if (other.decimals !== this.decimals) {
+            throw new Error(`Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`);
+        }
+    }
+}
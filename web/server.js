@@ -7,6 +7,7 @@ const cors = require('cors');
 // Import bot services
 const { Bot } = require('../dist/bot');
 const { Logger } = require('../dist/utils/logger');
+const { Config } = require('../dist/config');
 
 class WebServer {
     constructor() {
@@ -117,8 +118,8 @@ class WebServer {
                     name: 'Gala USD Coin'
                 });
 
-                // Calculate total value (simplified - in real implementation, you'd get current prices)
-                const totalValue = gusdcBalance; // Assuming GUSDC is $1
+                // GUSDC is valued at its monitored USD price rather than an assumed $1
+                const totalValue = gusdcBalance * galaDexService.depegMonitor.getUsdPrice('GUSDC');
 
                 res.json({
                     galaBalance,
@@ -162,7 +163,8 @@ class WebServer {
                     { name: 'Trend Analysis', weight: weights.trend, enabled: enabled.trend },
                     { name: 'Bollinger Bands', weight: weights.bollingerBands, enabled: enabled.bollingerBands },
                     { name: 'Fibonacci Strategy', weight: weights.fibonacci, enabled: enabled.fibonacci },
-                    { name: 'DCA Strategy', weight: weights.dca, enabled: enabled.dca }
+                    { name: 'DCA Strategy', weight: weights.dca, enabled: enabled.dca },
+                    { name: 'Reference Reversion', weight: weights.reversion, enabled: enabled.reversion }
                 ];
 
                 res.json(strategies);
@@ -271,7 +273,7 @@ class WebServer {
                 wallet: {
                     galaBalance,
                     gusdcBalance,
-                    totalValue: gusdcBalance
+                    totalValue: gusdcBalance * galaDexService.depegMonitor.getUsdPrice('GUSDC')
                 }
             }));
 
@@ -294,7 +296,8 @@ class WebServer {
                 { name: 'Trend Analysis', weight: weights.trend, enabled: enabled.trend },
                 { name: 'Bollinger Bands', weight: weights.bollingerBands, enabled: enabled.bollingerBands },
                 { name: 'Fibonacci Strategy', weight: weights.fibonacci, enabled: enabled.fibonacci },
-                { name: 'DCA Strategy', weight: weights.dca, enabled: enabled.dca }
+                { name: 'DCA Strategy', weight: weights.dca, enabled: enabled.dca },
+                { name: 'Reference Reversion', weight: weights.reversion, enabled: enabled.reversion }
             ];
 
             ws.send(JSON.stringify({
@@ -334,10 +337,29 @@ class WebServer {
 
     async initializeBot() {
         try {
+            // Serve the gateway from this process when running against the local profile
+            if (process.env.GALA_NETWORK === 'local' && process.env.START_MOCK_GATEWAY === 'true') {
+                const { MockGateway } = require('../dist/mock/mockGateway');
+                this.mockGateway = new MockGateway();
+                await this.mockGateway.start();
+            }
+
             this.logger.info('Initializing bot for web server...');
+            Config.validate();
             this.bot = new Bot();
             await this.bot.initialize();
             this.logger.info('Bot initialized successfully');
+
+            // Forward swap confirmations and failures as they happen
+            const { transactionTracker } = require('../dist/services/transactionTracker');
+            transactionTracker.on('change', (transaction) => {
+                this.broadcast({ type: 'transaction_update', transaction });
+            });
+
+            // Alert clients when a stablecoin leaves or rejoins its peg
+            const { depegMonitor } = this.bot.getGalaDexService();
+            depegMonitor.on('depeg', (status) => this.broadcast({ type: 'depeg_alert', status }));
+            depegMonitor.on('recovered', (status) => this.broadcast({ type: 'depeg_alert', status }));
             
             // Start price update simulation
             this.startPriceUpdates();
@@ -26,7 +26,7 @@ interface TradeExecution {
   confidence: number;
   reason: string;
   timestamp: number;
-  status: 'PENDING' | 'FILLED' | 'FAILED';
+  status: 'PENDING' | 'SUBMITTED' | 'FILLED' | 'FAILED';
   txHash?: string;
 }
 